@@ -0,0 +1,155 @@
+/**
+ * Generate the per-book ES modules exported as `books/*`.
+ *
+ * Each verse module holds its verse's data with its reference attached,
+ * inlined since the published package does not ship the JSON data files;
+ * chapter and book modules import their verses, so bundlers can tree-shake
+ * down to the passages an application ships. Modules are written under
+ * English names without spaces (`books/Genesis/1/1`, `books/1Samuel`) and
+ * re-exported under OSIS IDs (`books/Gen/1/1`, `books/1Sam`).
+ *
+ * Run after `tsc`, since the declarations import `dist/types.d.ts`.
+ *
+ * Usage: npx tsx scripts/build-books.ts [--books Gen,Ruth] [--out dist/books]
+ */
+
+import { mkdir, readFile, rm, writeFile } from 'fs/promises';
+import { join, dirname, relative, resolve } from 'path';
+import { fileURLToPath } from 'url';
+import { BOOK_TO_OSIS, resolveBook } from '../src/books.js';
+import { listNumbered } from './data-files.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+const ROOT_DIR = join(__dirname, '..');
+
+const DATA_DIR = join(ROOT_DIR, 'data', 'openscriptures-OHB');
+const DIST_DIR = join(ROOT_DIR, 'dist');
+
+interface Options {
+  books: string[];
+  outDir: string;
+}
+
+function parseArgs(args: string[]): Options {
+  const options: Options = { books: Object.values(BOOK_TO_OSIS), outDir: join(DIST_DIR, 'books') };
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--books') {
+      options.books = args[++i].split(',').map(book => resolveBook(book.trim()));
+    } else if (args[i] === '--out') {
+      options.outDir = resolve(args[++i]);
+    } else {
+      throw new Error(`Unknown argument '${args[i]}'`);
+    }
+  }
+  return options;
+}
+
+/**
+ * Relative import specifier from one generated file to another path.
+ */
+function specifier(fromFile: string, to: string): string {
+  const path = relative(dirname(fromFile), to).split('\\').join('/');
+  return path.startsWith('.') ? path : `./${path}`;
+}
+
+/**
+ * Write a module and its declaration file.
+ */
+async function writeModule(path: string, js: string, dts: string): Promise<void> {
+  await mkdir(dirname(path), { recursive: true });
+  await writeFile(`${path}.js`, js, 'utf-8');
+  await writeFile(`${path}.d.ts`, dts, 'utf-8');
+}
+
+function typesImport(path: string, outDir: string): string {
+  const typesPath = join(dirname(outDir), 'types.js');
+  return `import type { LocatedVerse } from '${specifier(path, typesPath)}';\n`;
+}
+
+async function writeVerse(path: string, outDir: string, book: string, chapter: number, verse: number): Promise<void> {
+  const data = JSON.parse(await readFile(join(DATA_DIR, book, String(chapter), `${verse}.json`), 'utf-8'));
+  await writeModule(
+    path,
+    `export default ${JSON.stringify({ ...data, book, chapter, verse })};\n`,
+    typesImport(path, outDir) + `\ndeclare const verse: LocatedVerse;\nexport default verse;\n`
+  );
+}
+
+/**
+ * Write a module whose default export is an array of its children's default exports.
+ */
+async function writeCollection(
+  path: string,
+  outDir: string,
+  children: string[],
+  type: 'LocatedVerse[]' | 'LocatedVerse[][]'
+): Promise<void> {
+  const imports = children.map((child, i) => `import m${i} from '${specifier(path, child)}.js';\n`).join('');
+  const list = children.map((_, i) => `m${i}`).join(', ');
+  await writeModule(
+    path,
+    `${imports}\nexport default [${list}];\n`,
+    typesImport(path, outDir) + `\ndeclare const data: ${type};\nexport default data;\n`
+  );
+}
+
+/**
+ * Write a module and declaration that re-export another generated module.
+ */
+async function writeAlias(path: string, target: string): Promise<void> {
+  const reexport = `export { default } from '${specifier(path, target)}.js';\n`;
+  await writeModule(path, reexport, reexport);
+}
+
+async function buildBook(book: string, outDir: string): Promise<number> {
+  const name = Object.entries(BOOK_TO_OSIS).find(([, osis]) => osis === book)![0];
+  const bookPath = join(outDir, name.replace(/\s+/g, ''));
+  const aliasPath = join(outDir, book);
+  const hasAlias = aliasPath !== bookPath;
+  for (const path of [bookPath, aliasPath]) {
+    await rm(path, { recursive: true, force: true });
+  }
+
+  const chapterPaths: string[] = [];
+  let verseCount = 0;
+  for (const chapter of await listNumbered(join(DATA_DIR, book))) {
+    const chapterPath = join(bookPath, String(chapter));
+    const versePaths: string[] = [];
+    for (const verse of await listNumbered(join(DATA_DIR, book, String(chapter)), '.json')) {
+      const versePath = join(chapterPath, String(verse));
+      await writeVerse(versePath, outDir, book, chapter, verse);
+      if (hasAlias) await writeAlias(join(aliasPath, String(chapter), String(verse)), versePath);
+      versePaths.push(versePath);
+    }
+    await writeCollection(chapterPath, outDir, versePaths, 'LocatedVerse[]');
+    if (hasAlias) await writeAlias(join(aliasPath, String(chapter)), chapterPath);
+    chapterPaths.push(chapterPath);
+    verseCount += versePaths.length;
+  }
+  await writeCollection(bookPath, outDir, chapterPaths, 'LocatedVerse[][]');
+  if (hasAlias) await writeAlias(aliasPath, bookPath);
+
+  return verseCount;
+}
+
+async function main(): Promise<void> {
+  console.log('Building book modules');
+  console.log('=====================\n');
+
+  try {
+    const { books, outDir } = parseArgs(process.argv.slice(2));
+
+    let totalVerses = 0;
+    for (const book of books) {
+      totalVerses += await buildBook(book, outDir);
+    }
+
+    console.log(`✓ Wrote ${books.length} books (${totalVerses} verses) to ${outDir}`);
+  } catch (error) {
+    console.error('Book module build failed:', error);
+    process.exit(1);
+  }
+}
+
+main();
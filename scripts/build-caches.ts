@@ -0,0 +1,58 @@
+/**
+ * Rebuild the prebuilt indexes in cache/ from the imported verse data.
+ *
+ * The import script writes the caches as it goes; this rebuilds them
+ * without re-downloading the source.
+ *
+ * Usage: npx tsx scripts/build-caches.ts
+ */
+
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+import { CacheBuilder, CACHE_NAMES } from '../src/caches.js';
+import { BOOK_TO_OSIS } from '../src/books.js';
+import { withSegments } from '../src/segments.js';
+import type { OhbVerseData } from '../src/types.js';
+import { listNumbered } from './data-files.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+const ROOT_DIR = join(__dirname, '..');
+
+const DATA_DIR = join(ROOT_DIR, 'data', 'openscriptures-OHB');
+const CACHE_DIR = join(ROOT_DIR, 'cache');
+
+async function main(): Promise<void> {
+  console.log('Building caches');
+  console.log('===============\n');
+
+  try {
+    const builder = new CacheBuilder();
+
+    for (const book of Object.values(BOOK_TO_OSIS)) {
+      const bookDir = join(DATA_DIR, book);
+      for (const chapter of await listNumbered(bookDir)) {
+        const chapterDir = join(bookDir, String(chapter));
+        for (const verse of await listNumbered(chapterDir, '.json')) {
+          const content = await readFile(join(chapterDir, `${verse}.json`), 'utf-8');
+          const data = withSegments(JSON.parse(content) as OhbVerseData);
+          builder.add(book, chapter, verse, data.words);
+        }
+      }
+    }
+
+    const caches = builder.build();
+    await mkdir(CACHE_DIR, { recursive: true });
+    for (const name of CACHE_NAMES) {
+      await writeFile(join(CACHE_DIR, `${name}.json`), JSON.stringify(caches[name]), 'utf-8');
+    }
+
+    console.log(`✓ Wrote ${CACHE_NAMES.length} caches to ${CACHE_DIR}`);
+  } catch (error) {
+    console.error('Cache build failed:', error);
+    process.exit(1);
+  }
+}
+
+main();
@@ -0,0 +1,56 @@
+/**
+ * Rebuild the packed per-book files from the imported verse JSON files.
+ *
+ * The import script writes the packed files as it goes; this rebuilds them
+ * without re-downloading the source.
+ *
+ * Usage: npx tsx scripts/build-packed.ts
+ */
+
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+import { packBook } from '../src/packed.js';
+import { BOOK_TO_OSIS } from '../src/books.js';
+import type { OhbVerseData } from '../src/types.js';
+import { listNumbered } from './data-files.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+const ROOT_DIR = join(__dirname, '..');
+
+const DATA_DIR = join(ROOT_DIR, 'data', 'openscriptures-OHB');
+const PACKED_DIR = join(ROOT_DIR, 'data', 'openscriptures-OHB-packed');
+
+async function main(): Promise<void> {
+  console.log('Building packed data');
+  console.log('====================\n');
+
+  try {
+    await mkdir(PACKED_DIR, { recursive: true });
+    let totalBytes = 0;
+
+    for (const book of Object.values(BOOK_TO_OSIS)) {
+      const verses: Array<{ chapter: number; verse: number; data: OhbVerseData }> = [];
+      const bookDir = join(DATA_DIR, book);
+      for (const chapter of await listNumbered(bookDir)) {
+        const chapterDir = join(bookDir, String(chapter));
+        for (const verse of await listNumbered(chapterDir, '.json')) {
+          const content = await readFile(join(chapterDir, `${verse}.json`), 'utf-8');
+          verses.push({ chapter, verse, data: JSON.parse(content) });
+        }
+      }
+
+      const packed = packBook(book, verses);
+      await writeFile(join(PACKED_DIR, `${book}.jsonl`), packed, 'utf-8');
+      totalBytes += Buffer.byteLength(packed, 'utf-8');
+    }
+
+    console.log(`✓ Wrote ${Object.keys(BOOK_TO_OSIS).length} books (${(totalBytes / 1e6).toFixed(1)} MB) to ${PACKED_DIR}`);
+  } catch (error) {
+    console.error('Packed data build failed:', error);
+    process.exit(1);
+  }
+}
+
+main();
@@ -0,0 +1,19 @@
+/**
+ * Helpers the build scripts share for walking the per-verse JSON data, stored
+ * as `<Book>/<chapter>/<verse>.json`.
+ */
+
+import { readdir } from 'fs/promises';
+
+/**
+ * List the numbered entries of a directory (chapters, or verse files when
+ * `ext` is '.json') in numeric order.
+ */
+export async function listNumbered(dir: string, ext = ''): Promise<number[]> {
+  const entries = await readdir(dir);
+  return entries
+    .filter(name => name.endsWith(ext))
+    .map(name => parseInt(name, 10))
+    .filter(n => !isNaN(n))
+    .sort((a, b) => a - b);
+}
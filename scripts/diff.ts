@@ -0,0 +1,181 @@
+/**
+ * Compare two builds of the verse data word by word, e.g. the data before
+ * and after importing a new MorphHB revision.
+ *
+ * Each build is a directory of per-verse JSON files (`data/openscriptures-OHB`)
+ * or of packed books (`data/openscriptures-OHB-packed`). Prints a summary
+ * table per book; `--json <file>` also writes every verse and word change
+ * as JSON (`--json -` prints it instead of the table).
+ *
+ * Usage: npx tsx scripts/diff.ts <before> <after> [--books Gen,Ruth] [--json diff.json]
+ */
+
+import { existsSync } from 'fs';
+import { readFile, writeFile } from 'fs/promises';
+import { join, resolve } from 'path';
+import { BOOK_TO_OSIS, resolveBook } from '../src/books.js';
+import { diffVerse, summarizeDiff, DIFF_FIELDS } from '../src/diff.js';
+import { PackedBookReader } from '../src/packed.js';
+import { createNodeBackend } from '../src/node.js';
+import type { DiffSummary, VerseDiff } from '../src/diff.js';
+import type { OhbVerseData } from '../src/types.js';
+import { listNumbered } from './data-files.js';
+
+interface Options {
+  before: string;
+  after: string;
+  books: string[];
+  jsonPath?: string;
+}
+
+interface Build {
+  path: string;
+  /** Upstream MorphHB revision, from the build's metadata.json */
+  revision?: string;
+}
+
+// Verses of one book keyed by chapter, then verse
+type BookVerses = Map<number, Map<number, OhbVerseData>>;
+
+function parseArgs(args: string[]): Options {
+  const paths: string[] = [];
+  let books = Object.values(BOOK_TO_OSIS);
+  let jsonPath: string | undefined;
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--books') {
+      books = args[++i].split(',').map(book => resolveBook(book.trim()));
+    } else if (args[i] === '--json') {
+      jsonPath = args[++i] === '-' ? '-' : resolve(args[i]);
+    } else if (args[i].startsWith('--')) {
+      throw new Error(`Unknown argument '${args[i]}'`);
+    } else {
+      paths.push(resolve(args[i]));
+    }
+  }
+  if (paths.length !== 2) {
+    throw new Error('Expected two builds to compare: <before> <after>');
+  }
+  return { before: paths[0], after: paths[1], books, jsonPath };
+}
+
+async function openBuild(path: string): Promise<Build> {
+  if (!existsSync(path)) {
+    throw new Error(`Build ${path} not found`);
+  }
+  const metadataPath = join(path, 'metadata.json');
+  if (!existsSync(metadataPath)) return { path };
+  const metadata = JSON.parse(await readFile(metadataPath, 'utf-8'));
+  return { path, revision: metadata.upstream?.revision };
+}
+
+/**
+ * Read every verse of a book from a JSON or packed build; empty if the
+ * build lacks the book.
+ */
+async function readBook({ path }: Build, book: string): Promise<BookVerses> {
+  const verses: BookVerses = new Map();
+
+  if (existsSync(join(path, `${book}.jsonl`))) {
+    const reader = await PackedBookReader.open(createNodeBackend(path), `${book}.jsonl`);
+    for (const chapter of reader.chapters()) {
+      const entries = await reader.readChapter(chapter);
+      verses.set(chapter, new Map(entries.map(({ verse, data }) => [verse, data])));
+    }
+    return verses;
+  }
+
+  const bookDir = join(path, book);
+  if (!existsSync(bookDir)) return verses;
+  for (const chapter of await listNumbered(bookDir)) {
+    const chapterDir = join(bookDir, String(chapter));
+    const chapterVerses = new Map<number, OhbVerseData>();
+    for (const verse of await listNumbered(chapterDir, '.json')) {
+      chapterVerses.set(verse, JSON.parse(await readFile(join(chapterDir, `${verse}.json`), 'utf-8')));
+    }
+    verses.set(chapter, chapterVerses);
+  }
+  return verses;
+}
+
+function sortedUnion(a: Iterable<number>, b: Iterable<number>): number[] {
+  return [...new Set([...a, ...b])].sort((x, y) => x - y);
+}
+
+function diffBook(book: string, before: BookVerses, after: BookVerses): VerseDiff[] {
+  const diffs: VerseDiff[] = [];
+  for (const chapter of sortedUnion(before.keys(), after.keys())) {
+    const a = before.get(chapter) ?? new Map<number, OhbVerseData>();
+    const b = after.get(chapter) ?? new Map<number, OhbVerseData>();
+    for (const verse of sortedUnion(a.keys(), b.keys())) {
+      const diff = diffVerse(book, chapter, verse, a.get(verse), b.get(verse));
+      if (diff) diffs.push(diff);
+    }
+  }
+  return diffs;
+}
+
+function formatTable(books: Record<string, DiffSummary>, total: DiffSummary): string {
+  const header = ['Book', '+verses', '-verses', '~verses', '+words', '-words', '~words', ...DIFF_FIELDS];
+  const row = (name: string, summary: DiffSummary) => [
+    name,
+    summary.verses.added,
+    summary.verses.removed,
+    summary.verses.changed,
+    summary.words.added,
+    summary.words.removed,
+    summary.words.changed,
+    ...DIFF_FIELDS.map(field => summary.fields[field]),
+  ].map(String);
+
+  const rows = [header, ...Object.entries(books).map(([book, summary]) => row(book, summary)), row('Total', total)];
+  const widths = header.map((_, i) => Math.max(...rows.map(cells => cells[i].length)));
+  const format = (cells: string[]) =>
+    cells.map((cell, i) => (i === 0 ? cell.padEnd(widths[i]) : cell.padStart(widths[i]))).join('  ');
+
+  return [format(header), widths.map(width => '-'.repeat(width)).join('  '), ...rows.slice(1).map(format)].join('\n');
+}
+
+async function main(): Promise<void> {
+  try {
+    const options = parseArgs(process.argv.slice(2));
+    const before = await openBuild(options.before);
+    const after = await openBuild(options.after);
+
+    const verses: VerseDiff[] = [];
+    const books: Record<string, DiffSummary> = {};
+    for (const book of options.books) {
+      const diffs = diffBook(book, await readBook(before, book), await readBook(after, book));
+      if (diffs.length > 0) books[book] = summarizeDiff(diffs);
+      verses.push(...diffs);
+    }
+    const summary = summarizeDiff(verses);
+    const report = { before, after, summary, books, verses };
+
+    if (options.jsonPath === '-') {
+      console.log(JSON.stringify(report, null, 2));
+      return;
+    }
+    if (options.jsonPath) {
+      await writeFile(options.jsonPath, JSON.stringify(report, null, 2), 'utf-8');
+    }
+
+    const describe = (build: Build) => (build.revision ? `${build.path} (${build.revision})` : build.path);
+    console.log('Comparing builds');
+    console.log('================\n');
+    console.log(`Before: ${describe(before)}`);
+    console.log(`After:  ${describe(after)}\n`);
+    if (verses.length === 0) {
+      console.log('✓ No differences');
+    } else {
+      console.log(formatTable(books, summary));
+    }
+    if (options.jsonPath) {
+      console.log(`\n✓ Wrote ${verses.length} verse changes to ${options.jsonPath}`);
+    }
+  } catch (error) {
+    console.error('Diff failed:', error);
+    process.exit(1);
+  }
+}
+
+main();
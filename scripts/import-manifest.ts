@@ -0,0 +1,93 @@
+/**
+ * The importer's resume manifest: which books were imported, from which
+ * upstream XML, and which failed.
+ *
+ * A book whose XML is unchanged since it was last imported is skipped, so an
+ * interrupted import picks up where it stopped. Within a re-imported book,
+ * files whose content hash is unchanged are not rewritten.
+ */
+
+import { existsSync } from 'fs';
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import { dirname } from 'path';
+import { sha256 } from './morphhb-source.js';
+
+export const MANIFEST_VERSION = 1;
+
+export interface BookRecord {
+  status: 'done' | 'failed';
+  /** Revision the book was imported at */
+  revision: string;
+  /** SHA-256 of the book's XML */
+  sha256?: string;
+  verses: number;
+  /** Why the import failed */
+  error?: string;
+}
+
+interface ManifestData {
+  version: number;
+  books: Record<string, BookRecord>;
+}
+
+export class ImportManifest {
+  private saving: Promise<void> = Promise.resolve();
+
+  private constructor(private readonly path: string, private readonly data: ManifestData) {}
+
+  /**
+   * Read the manifest at `path`, or start an empty one if it is missing or
+   * from another manifest version.
+   */
+  static async open(path: string): Promise<ImportManifest> {
+    let data: ManifestData = { version: MANIFEST_VERSION, books: {} };
+    if (existsSync(path)) {
+      const stored = JSON.parse(await readFile(path, 'utf-8')) as ManifestData;
+      if (stored.version === MANIFEST_VERSION) data = stored;
+    }
+    return new ImportManifest(path, data);
+  }
+
+  get(book: string): BookRecord | undefined {
+    return this.data.books[book];
+  }
+
+  /**
+   * Check whether a book was fully imported from the same XML.
+   */
+  isComplete(book: string, revision: string, xmlHash: string): boolean {
+    const record = this.data.books[book];
+    return record?.status === 'done' && record.revision === revision && record.sha256 === xmlHash;
+  }
+
+  /**
+   * Record a book's outcome and save the manifest. Saves run one at a time,
+   * so concurrent book imports never interleave their writes, and each
+   * rejects only with its own error.
+   */
+  update(book: string, record: BookRecord): Promise<void> {
+    this.data.books[book] = record;
+    this.saving = this.saving.catch(() => {}).then(() => this.write());
+    return this.saving;
+  }
+
+  private async write(): Promise<void> {
+    await mkdir(dirname(this.path), { recursive: true });
+    await writeFile(this.path, JSON.stringify(this.data), 'utf-8');
+  }
+}
+
+/**
+ * Write `content` to `path` unless the file's SHA-256 shows it already holds
+ * it, so unchanged files keep their modification times.
+ *
+ * @returns whether the file was written
+ */
+export async function writeIfChanged(path: string, content: string): Promise<boolean> {
+  if (existsSync(path) && sha256(await readFile(path, 'utf-8')) === sha256(content)) {
+    return false;
+  }
+  await mkdir(dirname(path), { recursive: true });
+  await writeFile(path, content, 'utf-8');
+  return true;
+}
@@ -1,24 +1,41 @@
 /**
  * Import script for OpenScriptures MorphHB (Hebrew Bible) data.
  *
- * Downloads individual book XML files from the MorphHB GitHub repository
- * and converts to JSON format.
+ * Reads individual book XML files from a local MorphHB checkout or archive,
+ * or downloads them from the MorphHB GitHub repository, and converts them to
+ * JSON format. The upstream revision and each book's SHA-256 are recorded in
+ * the generated metadata.
  *
- * Usage: npx tsx scripts/import.ts
+ * Books are imported a few at a time. A manifest in source/ records each
+ * book's outcome, so rerunning after a failure or interruption skips books
+ * already imported from the same XML; files whose content is unchanged are
+ * not rewritten.
+ *
+ * Usage: npx tsx scripts/import.ts [--from <dir|archive.tar.gz>] [--revision <commit|tag>]
+ *                                  [--checksums <sha256sums|metadata.json>] [--books Gen,Exod]
+ *                                  [--concurrency 4] [--force]
  */
 
-import { XMLParser } from 'fast-xml-parser';
-import { mkdir, writeFile, readFile } from 'fs/promises';
 import { existsSync } from 'fs';
-import { join, dirname } from 'path';
+import { mkdir, writeFile, readFile } from 'fs/promises';
+import { join, dirname, resolve } from 'path';
 import { fileURLToPath } from 'url';
+import { withSegments } from '../src/segments.js';
+import { CacheBuilder, CACHE_NAMES } from '../src/caches.js';
+import { packBook } from '../src/packed.js';
+import { resolveBook } from '../src/books.js';
+import { mapWithConcurrency } from '../src/concurrency.js';
+import { REPOSITORY_URL, hashBook, openSource, parseChecksums, verifyDigest } from './morphhb-source.js';
+import type { BookSource } from './morphhb-source.js';
+import { ImportManifest, writeIfChanged } from './import-manifest.js';
+import { OsisParser, toVerseData } from './osis-parser.js';
+import type { ParsedVerse, VerseData } from './osis-parser.js';
+import { listNumbered } from './data-files.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 const ROOT_DIR = join(__dirname, '..');
 
-const BASE_URL = 'https://raw.githubusercontent.com/openscriptures/morphhb/refs/heads/master/wlc/';
-
 const BOOKS = [
   'Gen.xml', 'Exod.xml', 'Lev.xml', 'Num.xml', 'Deut.xml',
   'Josh.xml', 'Judg.xml', 'Ruth.xml',
@@ -33,383 +50,199 @@ const BOOKS = [
 
 const SOURCE_DIR = join(ROOT_DIR, 'source');
 const DATA_DIR = join(ROOT_DIR, 'data', 'openscriptures-OHB');
-
-const STRONGS_RE = /(?:strongs?:)?([HGhg]?\d{1,5})/g;
-
-interface WordEntry {
-  position: number;
-  text: string;
-  lemma?: string | null;
-  morph?: string | null;
-  strongs?: string[];
-  variant?: 'ketiv' | 'qere';
-  metadata?: Record<string, unknown>;
-  /** Raw source data preserved for reference */
-  source?: {
-    /** Original lemma attribute value */
-    lemma?: string;
-    /** Original morph attribute value */
-    morph?: string;
-    /** Original element type (e.g., x-ketiv, x-qere) */
-    type?: string;
-  };
+const PACKED_DIR = join(ROOT_DIR, 'data', 'openscriptures-OHB-packed');
+const CACHE_DIR = join(ROOT_DIR, 'cache');
+const MANIFEST_PATH = join(SOURCE_DIR, 'import-manifest.json');
+
+const DEFAULT_CONCURRENCY = 4;
+
+const parser = new OsisParser();
+
+interface Options {
+  from?: string;
+  revision?: string;
+  checksums?: string;
+  /** Book files to import, e.g. 'Gen.xml' */
+  books: string[];
+  /** Books imported at once */
+  concurrency: number;
+  /** Re-import books the manifest shows as already imported */
+  force: boolean;
 }
 
-interface VerseData {
-  text: string;
-  words: WordEntry[];
+interface BookResult {
+  book: string;
+  verses: number;
+  /** Verse and packed files rewritten */
+  written: number;
+  /** Skipped because the same XML was already imported */
+  resumed: boolean;
+  /** SHA-256 of the book's XML */
+  sha256?: string;
+  error?: string;
 }
 
-// Hebrew maqqef character (U+05BE) - used as a word connector like a hyphen
-const MAQQEF = '\u05BE';
-
-function extractStrongs(value: string | null, wordText?: string): string[] {
-  if (!value) return [];
-
-  const results: string[] = [];
-  let match;
-  STRONGS_RE.lastIndex = 0;
-
-  while ((match = STRONGS_RE.exec(value)) !== null) {
-    const token = match[1];
-    let prefix = '';
-    if (token[0] && 'HGhg'.includes(token[0])) {
-      prefix = token[0].toUpperCase();
+function parseArgs(args: string[]): Options {
+  const options: Options = { books: BOOKS, concurrency: DEFAULT_CONCURRENCY, force: false };
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--from') {
+      options.from = resolve(args[++i]);
+    } else if (args[i] === '--revision') {
+      options.revision = args[++i];
+    } else if (args[i] === '--checksums') {
+      options.checksums = resolve(args[++i]);
+    } else if (args[i] === '--books') {
+      options.books = args[++i].split(',').map(book => `${resolveBook(book.trim())}.xml`);
+    } else if (args[i] === '--concurrency') {
+      options.concurrency = parseInt(args[++i], 10);
+      if (!(options.concurrency >= 1)) {
+        throw new Error(`Invalid --concurrency '${args[i]}'`);
+      }
+    } else if (args[i] === '--force') {
+      options.force = true;
+    } else {
+      throw new Error(`Unknown argument '${args[i]}'`);
     }
-    const digits = token.match(/\d{1,5}/);
-    if (!digits) continue;
-
-    // Default to Hebrew for this source
-    if (!prefix) prefix = 'H';
-
-    results.push(`${prefix}${parseInt(digits[0], 10)}`);
   }
-
-  return results;
+  return options;
 }
 
-async function downloadBook(bookName: string): Promise<string> {
-  const xmlPath = join(SOURCE_DIR, bookName);
-
-  if (existsSync(xmlPath)) {
-    return await readFile(xmlPath, 'utf-8');
-  }
-
-  const url = `${BASE_URL}${bookName}`;
-  const response = await fetch(url, {
-    headers: { 'User-Agent': 'Mozilla/5.0' }
-  });
-
-  if (!response.ok) {
-    throw new Error(`Failed to download ${bookName}: ${response.status}`);
-  }
-
-  const xml = await response.text();
-  await writeFile(xmlPath, xml, 'utf-8');
-
-  return xml;
+/**
+ * Write a verse file, unless it already holds the same data.
+ */
+async function saveVerse(verse: ParsedVerse): Promise<{ data: VerseData; written: boolean }> {
+  const data = toVerseData(verse);
+  const filePath = join(DATA_DIR, verse.book, String(verse.chapter), `${verse.number}.json`);
+  const written = await writeIfChanged(filePath, JSON.stringify(data, null, 2));
+  return { data, written };
 }
 
-interface ParsedVerse {
-  book: string;
-  chapter: number;
-  number: number;
-  text: string;
-  words: Array<{
-    position: number;
-    text: string;
-    lemma?: string | null;
-    morph?: string | null;
-    strongs?: string[];
-    variant?: 'ketiv' | 'qere';
-    metadata?: Record<string, unknown>;
-    source?: {
-      lemma?: string;
-      morph?: string;
-      type?: string;
-    };
-  }>;
+/**
+ * Read the metadata.json of an earlier import, or return null if there is none.
+ */
+async function readMetadata(): Promise<{ upstream?: { revision?: string; files?: Record<string, string> } } | null> {
+  const metadataPath = join(DATA_DIR, 'metadata.json');
+  return existsSync(metadataPath) ? JSON.parse(await readFile(metadataPath, 'utf-8')) : null;
 }
 
-function parseOsis(xml: string): ParsedVerse[] {
-  const parser = new XMLParser({
-    ignoreAttributes: false,
-    attributeNamePrefix: '@_',
-    textNodeName: '#text',
-    preserveOrder: false,
-    trimValues: false, // Preserve whitespace for Hebrew
-  });
-
-  const doc = parser.parse(xml);
-  const verses: ParsedVerse[] = [];
-
-  function findVerses(obj: unknown, results: ParsedVerse[]): void {
-    if (!obj || typeof obj !== 'object') return;
-
-    if (Array.isArray(obj)) {
-      for (const item of obj) {
-        findVerses(item, results);
-      }
-      return;
-    }
-
-    const record = obj as Record<string, unknown>;
-
-    // Check if this is a verse element
-    if (record['@_osisID'] && typeof record['@_osisID'] === 'string') {
-      const osisId = record['@_osisID'];
-      const parts = osisId.split('.');
-      if (parts.length === 3) {
-        const [book, chap, num] = parts;
-        const words: ParsedVerse['words'] = [];
-        let pos = 1;
-        let isInsideQere = false;
-
-        function extractWords(content: unknown): void {
-          if (!content) return;
-
-          if (typeof content === 'string') {
-            const cleanText = content.replace(/\//g, '').trim();
-            if (cleanText) {
-              for (const word of cleanText.split(/\s+/).filter(Boolean)) {
-                // Skip maqqef-only entries (punctuation, not words)
-                if (word === MAQQEF) continue;
-                words.push({
-                  position: pos++,
-                  text: word,
-                  lemma: null,
-                  morph: null,
-                  metadata: {},
-                  source: {},
-                });
-              }
-            }
-            return;
-          }
-
-          if (Array.isArray(content)) {
-            for (const item of content) {
-              extractWords(item);
-            }
-            return;
-          }
-
-          if (typeof content === 'object') {
-            const elem = content as Record<string, unknown>;
-
-            if (elem['#text']) {
-              const elemType = elem['@_type'] as string | undefined;
-
-              // Skip <seg> elements with specific types (paragraph markers and punctuation)
-              // But do NOT skip word/reading elements: x-ketiv, x-qere
-              if (elemType && elemType.startsWith('x-')) {
-                // Allow ketiv and qere types through - they contain valid word data
-                if (elemType !== 'x-ketiv' && elemType !== 'x-qere') {
-                  return;
-                }
-              }
-
-              const rawText = String(elem['#text']);
-              const text = rawText.replace(/\//g, '').trim();
-              const lemma = elem['@_lemma'] as string | undefined;
-              const morph = elem['@_morph'] as string | undefined;
-
-              if (text) {
-                const strongs = extractStrongs(lemma || null, text);
-                for (const piece of text.split(/\s+/).filter(Boolean)) {
-                  // Skip maqqef-only entries (punctuation, not words)
-                  if (piece === MAQQEF) continue;
-
-                  // Determine variant type for Qere/Ketiv
-                  let variant: 'ketiv' | 'qere' | undefined;
-                  if (elemType === 'x-ketiv') {
-                    variant = 'ketiv';
-                  } else if (isInsideQere) {
-                    variant = 'qere';
-                  }
-
-                  // Build source object to preserve raw attributes
-                  const source: { lemma?: string; morph?: string; type?: string } = {};
-                  if (lemma) source.lemma = lemma;
-                  if (morph) source.morph = morph;
-                  if (elemType) source.type = elemType;
-
-                  words.push({
-                    position: pos++,
-                    text: piece,
-                    lemma: lemma || null,
-                    morph: morph || null,
-                    strongs: strongs.length > 0 ? strongs : undefined,
-                    variant,
-                    source: Object.keys(source).length > 0 ? source : undefined,
-                  });
-                }
-              }
-            }
+/**
+ * Refuse to import only some books at another revision than the data already
+ * holds, since metadata.json records a single revision for every book.
+ */
+async function checkPartialImport(options: Options, revision: string): Promise<void> {
+  if (options.force || BOOKS.every(book => options.books.includes(book))) return;
+
+  const previous = await readMetadata();
+  if (!previous || previous.upstream?.revision === revision) return;
+  throw new Error(
+    `The data was imported from ${previous.upstream?.revision ?? 'an unrecorded revision'}, not ${revision}; ` +
+      'import every book, or pass --force to mix revisions'
+  );
+}
 
-            for (const [key, value] of Object.entries(elem)) {
-              // Skip catchWord (redundant copy of ketiv text)
-              if (key === 'catchWord') {
-                continue;
-              }
-              // Handle rdg elements specially - only process x-qere, skip x-accent
-              if (key === 'rdg') {
-                const rdgValue = value as Record<string, unknown> | Record<string, unknown>[];
-                const rdgArray = Array.isArray(rdgValue) ? rdgValue : [rdgValue];
-                for (const rdg of rdgArray) {
-                  if (rdg && typeof rdg === 'object') {
-                    const rdgType = (rdg as Record<string, unknown>)['@_type'] as string | undefined;
-                    // Only process x-qere readings (skip x-accent which are just accent variants)
-                    if (rdgType === 'x-qere') {
-                      const prevIsInsideQere = isInsideQere;
-                      isInsideQere = true;
-                      extractWords(rdg);
-                      isInsideQere = prevIsInsideQere;
-                    }
-                  }
-                }
-                continue;
-              }
-              // Skip note elements but process their rdg children above
-              if (key === 'note') {
-                const noteValue = value as Record<string, unknown> | Record<string, unknown>[];
-                const noteArray = Array.isArray(noteValue) ? noteValue : [noteValue];
-                for (const note of noteArray) {
-                  if (note && typeof note === 'object') {
-                    // Process rdg inside note
-                    const noteObj = note as Record<string, unknown>;
-                    if (noteObj['rdg']) {
-                      const rdgValue = noteObj['rdg'] as Record<string, unknown> | Record<string, unknown>[];
-                      const rdgArray = Array.isArray(rdgValue) ? rdgValue : [rdgValue];
-                      for (const rdg of rdgArray) {
-                        if (rdg && typeof rdg === 'object') {
-                          const rdgType = (rdg as Record<string, unknown>)['@_type'] as string | undefined;
-                          if (rdgType === 'x-qere') {
-                            const prevIsInsideQere = isInsideQere;
-                            isInsideQere = true;
-                            extractWords(rdg);
-                            isInsideQere = prevIsInsideQere;
-                          }
-                        }
-                      }
-                    }
-                  }
-                }
-                continue;
-              }
-              if (!key.startsWith('@_') && key !== '#text') {
-                extractWords(value);
-              }
-            }
-          }
-        }
+/**
+ * Write metadata.json. Books not imported in this run keep the checksums
+ * recorded by earlier imports.
+ */
+async function saveMetadata(revision: string, files: Record<string, string>): Promise<void> {
+  const metadataPath = join(DATA_DIR, 'metadata.json');
+  const previous = (await readMetadata()) ?? {};
 
-        for (const [key, value] of Object.entries(record)) {
-          if (!key.startsWith('@_')) {
-            extractWords(value);
-          }
-        }
+  const metadata = {
+    abbreviation: 'OHB',
+    name: 'Open Scriptures Hebrew Bible',
+    language: 'Hebrew',
+    license: 'CC BY 4.0',
+    source: 'Open Scriptures',
+    urls: [REPOSITORY_URL],
+    // Upstream revision and SHA-256 of each book, for reproducing this import
+    upstream: {
+      repository: REPOSITORY_URL,
+      revision,
+      files: { ...previous.upstream?.files, ...files },
+    },
+  };
 
-        if (words.length > 0) {
-          const text = words.map(w => w.text).join(' ');
+  await mkdir(DATA_DIR, { recursive: true });
+  await writeFile(metadataPath, JSON.stringify(metadata, null, 2), 'utf-8');
+}
 
-          results.push({
-            book,
-            chapter: parseInt(chap, 10),
-            number: parseInt(num, 10),
-            text,
-            words,
-          });
-        }
+/**
+ * Rebuild the caches from every book in the data directory, including books
+ * skipped or not selected in this run.
+ */
+async function saveCaches(): Promise<void> {
+  const builder = new CacheBuilder();
+  for (const bookName of BOOKS) {
+    const bookDir = join(DATA_DIR, bookName.replace('.xml', ''));
+    if (!existsSync(bookDir)) continue;
+    for (const chapter of await listNumbered(bookDir)) {
+      const chapterDir = join(bookDir, String(chapter));
+      for (const verse of await listNumbered(chapterDir, '.json')) {
+        const data = withSegments(JSON.parse(await readFile(join(chapterDir, `${verse}.json`), 'utf-8')));
+        builder.add(bookName.replace('.xml', ''), chapter, verse, data.words);
       }
     }
-
-    for (const value of Object.values(record)) {
-      findVerses(value, results);
-    }
   }
+  const caches = builder.build();
 
-  findVerses(doc, verses);
-  return verses;
-}
-
-/**
- * Check if a word is a textual critical note rather than actual scripture.
- * These notes compare manuscript variants and have no lemma, no morphology,
- * and no Hebrew letters (non-Hebrew text like "We read one or more accents in L differently than BHS").
- */
-function isTextualCriticalNote(w: ParsedVerse['words'][0]): boolean {
-  if (w.lemma || w.morph) return false;
-  // Check if text contains Hebrew letters (U+0590-U+05FF range)
-  const hasHebrew = /[\u0590-\u05FF]/.test(w.text);
-  return !hasHebrew;
+  await mkdir(CACHE_DIR, { recursive: true });
+  for (const name of CACHE_NAMES) {
+    await writeFile(join(CACHE_DIR, `${name}.json`), JSON.stringify(caches[name]), 'utf-8');
+  }
 }
 
 /**
- * Check if a word is a paragraph marker (parashah marker) rather than actual scripture.
- * פ (pe) = petuchah (open paragraph), ס (samekh) = setumah (closed paragraph)
+ * Import one book, recording the outcome in the manifest. Errors are
+ * returned rather than thrown, so one bad book does not stop the others.
  */
-function isParagraphMarker(w: ParsedVerse['words'][0]): boolean {
-  return !w.lemma && !w.morph && (w.text === 'פ' || w.text === 'ס');
-}
-
-async function saveVerse(verse: ParsedVerse): Promise<void> {
-  const verseDir = join(DATA_DIR, verse.book, String(verse.chapter));
-  await mkdir(verseDir, { recursive: true });
+async function importBook(
+  bookName: string,
+  source: BookSource,
+  manifest: ImportManifest,
+  options: { checksums?: Map<string, string>; force: boolean }
+): Promise<BookResult> {
+  const book = bookName.replace('.xml', '');
+  let xmlHash: string | undefined;
 
-  // Filter out textual critical notes and paragraph markers, renumber positions
-  const filteredWords: WordEntry[] = [];
-  let position = 1;
-  for (const w of verse.words) {
-    if (isTextualCriticalNote(w)) continue;
-    if (isParagraphMarker(w)) continue;
+  try {
+    // Hash the book before parsing it, so a bad checksum or an unchanged
+    // book is caught before anything is written
+    xmlHash = await hashBook(source, bookName);
+    if (options.checksums) verifyDigest(bookName, xmlHash, options.checksums);
+    if (!options.force && manifest.isComplete(book, source.revision, xmlHash)) {
+      return { book, verses: manifest.get(book)!.verses, written: 0, resumed: true, sha256: xmlHash };
+    }
 
-    const metadata: Record<string, unknown> = { ...w.metadata };
-    if (w.lemma && !/\d/.test(w.lemma)) {
-      metadata.isPrefixOnly = true;
+    // Each verse is saved as soon as the parser has read it
+    const packed: Parameters<typeof packBook>[1] = [];
+    let written = 0;
+    for await (const verse of parser.stream(source.streamBook(bookName))) {
+      const saved = await saveVerse(verse);
+      if (saved.written) written++;
+      packed.push({ chapter: verse.chapter, verse: verse.number, data: saved.data });
     }
+    if (await writeIfChanged(join(PACKED_DIR, `${book}.jsonl`), packBook(book, packed))) written++;
 
-    filteredWords.push({
-      position: position++,
-      text: w.text,
-      lemma: w.lemma,
-      morph: w.morph,
-      strongs: w.strongs,
-      variant: w.variant,
-      metadata,
-      source: w.source,
+    await manifest.update(book, { status: 'done', revision: source.revision, sha256: xmlHash, verses: packed.length });
+    return { book, verses: packed.length, written, resumed: false, sha256: xmlHash };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    await manifest.update(book, {
+      status: 'failed',
+      revision: source.revision,
+      sha256: xmlHash,
+      verses: 0,
+      error: message,
     });
+    return { book, verses: 0, written: 0, resumed: false, error: message };
   }
-  const wordEntries = filteredWords;
-
-  // Rebuild text from filtered words (excludes textual critical notes)
-  const text = wordEntries.map(w => w.text).join(' ');
-
-  const data: VerseData = {
-    text,
-    words: wordEntries,
-  };
-
-  const filePath = join(verseDir, `${verse.number}.json`);
-  await writeFile(filePath, JSON.stringify(data, null, 2), 'utf-8');
 }
 
-async function saveMetadata(): Promise<void> {
-  const metadata = {
-    abbreviation: 'OHB',
-    name: 'Open Scriptures Hebrew Bible',
-    language: 'Hebrew',
-    license: 'CC BY 4.0',
-    source: 'Open Scriptures',
-    urls: ['https://github.com/openscriptures/morphhb'],
-  };
-
-  await mkdir(DATA_DIR, { recursive: true });
-  await writeFile(
-    join(DATA_DIR, 'metadata.json'),
-    JSON.stringify(metadata, null, 2),
-    'utf-8'
-  );
+function describeResult(result: BookResult): string {
+  if (result.error) return `✗ ${result.book}: ${result.error}`;
+  const status = result.resumed ? 'already imported' : `${result.written} files written`;
+  return `✓ ${result.book}: ${result.verses} verses, ${status}`;
 }
 
 async function main(): Promise<void> {
@@ -417,31 +250,35 @@ async function main(): Promise<void> {
   console.log('===============================\n');
 
   try {
-    await mkdir(SOURCE_DIR, { recursive: true });
-
-    console.log(`  → Downloading ${BOOKS.length} books...`);
-    let totalVerses = 0;
-
-    for (let i = 0; i < BOOKS.length; i++) {
-      const bookName = BOOKS[i];
-      const bookId = bookName.replace('.xml', '');
-
-      if ((i + 1) % 5 === 1 || i === BOOKS.length - 1) {
-        console.log(`  → Processing ${i + 1}/${BOOKS.length}: ${bookId}`);
-      }
-
-      const xml = await downloadBook(bookName);
-      const verses = parseOsis(xml);
+    const options = parseArgs(process.argv.slice(2));
+    const source = await openSource({ from: options.from, revision: options.revision, cacheDir: SOURCE_DIR });
+    await checkPartialImport(options, source.revision);
+    const checksums = options.checksums ? parseChecksums(await readFile(options.checksums, 'utf-8')) : undefined;
+    const manifest = await ImportManifest.open(MANIFEST_PATH);
+
+    console.log(`  → Reading ${options.books.length} books at ${source.revision} from ${options.from ?? 'GitHub'}...`);
+    let done = 0;
+    const results = await mapWithConcurrency(options.books, options.concurrency, async bookName => {
+      const result = await importBook(bookName, source, manifest, { checksums, force: options.force });
+      console.log(`  [${++done}/${options.books.length}] ${describeResult(result)}`);
+      return result;
+    });
 
-      for (const verse of verses) {
-        await saveVerse(verse);
-        totalVerses++;
-      }
+    const files: Record<string, string> = {};
+    for (const result of results) {
+      if (!result.error && result.sha256) files[`${result.book}.xml`] = result.sha256;
+    }
+    await saveMetadata(source.revision, files);
+    await saveCaches();
+
+    const failed = results.filter(result => result.error);
+    const totalVerses = results.reduce((total, result) => total + result.verses, 0);
+    console.log(`\n✓ Imported ${totalVerses} verses from ${results.length - failed.length} books to ${DATA_DIR}`);
+    if (failed.length > 0) {
+      console.error(`✗ ${failed.length} books failed; rerun to retry them:`);
+      for (const result of failed) console.error(`  ${describeResult(result)}`);
+      process.exit(1);
     }
-
-    await saveMetadata();
-
-    console.log(`\n✓ Successfully imported ${totalVerses} verses to ${DATA_DIR}`);
   } catch (error) {
     console.error('Import failed:', error);
     process.exit(1);
@@ -0,0 +1,328 @@
+/**
+ * Where the importer reads MorphHB book XML from: a local checkout, a
+ * `.tar.gz` archive, or raw.githubusercontent.com at a pinned revision.
+ *
+ * Every source reports the upstream revision it holds, and books can be
+ * checked against SHA-256 checksums, so imports can be verified and
+ * reproduced.
+ */
+
+import { createHash } from 'crypto';
+import { createReadStream, existsSync } from 'fs';
+import { mkdir, readFile, stat, writeFile } from 'fs/promises';
+import { basename, join } from 'path';
+import { gunzipSync, inflateSync } from 'zlib';
+
+export const REPOSITORY_URL = 'https://github.com/openscriptures/morphhb';
+const RAW_URL = 'https://raw.githubusercontent.com/openscriptures/morphhb';
+const COMMITS_URL = 'https://api.github.com/repos/openscriptures/morphhb/commits';
+const DEFAULT_REVISION = 'master';
+
+export interface BookSource {
+  /** Commit the books come from, or the tag or branch given when the commit is unknown */
+  revision: string;
+  /** Read one book, e.g. 'Gen.xml' */
+  readBook(bookName: string): Promise<string>;
+  /** Read one book in chunks, so it need not be held in memory whole */
+  streamBook(bookName: string): AsyncIterable<string>;
+}
+
+export interface OpenSourceOptions {
+  /** Local MorphHB checkout, its `wlc` directory, or a `.tar.gz` archive */
+  from?: string;
+  /**
+   * Commit or tag to import (default: the checkout's HEAD, or 'master' when
+   * downloading). Downloads resolve it to a commit first.
+   */
+  revision?: string;
+  /** Directory downloaded books are kept in, one subdirectory per revision */
+  cacheDir: string;
+}
+
+export function sha256(content: string | Uint8Array): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * Parse book checksums: `sha256sum` output ("<hex>  wlc/Gen.xml" per line),
+ * or the `metadata.json` of an earlier import, whose `upstream.files` maps
+ * book file names to checksums.
+ */
+export function parseChecksums(text: string): Map<string, string> {
+  if (text.trimStart().startsWith('{')) {
+    const files: Record<string, string> = JSON.parse(text).upstream?.files ?? {};
+    return new Map(Object.entries(files));
+  }
+
+  const checksums = new Map<string, string>();
+  for (const line of text.split('\n')) {
+    const match = line.trim().match(/^([0-9a-f]{64})\s+\*?(.+)$/i);
+    if (match) checksums.set(basename(match[2]), match[1].toLowerCase());
+  }
+  return checksums;
+}
+
+/**
+ * Hash a book as it is read, without holding it in memory whole.
+ */
+export async function hashBook(source: BookSource, bookName: string): Promise<string> {
+  const hash = createHash('sha256');
+  for await (const chunk of source.streamBook(bookName)) {
+    hash.update(chunk);
+  }
+  return hash.digest('hex');
+}
+
+/**
+ * Check a book against its expected checksum.
+ *
+ * @throws Error if the checksum is missing or does not match
+ */
+export function verifyChecksum(bookName: string, content: string, checksums: Map<string, string>): void {
+  verifyDigest(bookName, sha256(content), checksums);
+}
+
+/**
+ * Check a book's SHA-256 digest, as from `hashBook`, against its expected
+ * checksum.
+ *
+ * @throws Error if the checksum is missing or does not match
+ */
+export function verifyDigest(bookName: string, actual: string, checksums: Map<string, string>): void {
+  const expected = checksums.get(bookName);
+  if (!expected) {
+    throw new Error(`No checksum for ${bookName}`);
+  }
+  if (actual !== expected) {
+    throw new Error(`Checksum mismatch for ${bookName}: expected ${expected}, got ${actual}`);
+  }
+}
+
+/**
+ * Follow annotated tag objects to the commit they tag. Objects that are not
+ * stored loose are taken to be commits: `git gc` packs tags together with
+ * their refs, and packed refs record the peeled commit.
+ */
+async function peelTag(gitDir: string, sha: string): Promise<string> {
+  const path = join(gitDir, 'objects', sha.slice(0, 2), sha.slice(2));
+  if (!existsSync(path)) return sha;
+
+  const object = inflateSync(await readFile(path)).toString('utf-8');
+  const tagged = object.match(/^tag \d+\0object ([0-9a-f]{40})\n/);
+  return tagged ? peelTag(gitDir, tagged[1]) : sha;
+}
+
+/**
+ * Resolve a git ref ("HEAD", a branch or a tag) to a commit in a checkout,
+ * or return null if `dir` is not a git checkout or the ref is unknown.
+ */
+export async function resolveGitRef(dir: string, ref: string): Promise<string | null> {
+  const gitDir = join(dir, '.git');
+  if (!existsSync(gitDir)) return null;
+  if (/^[0-9a-f]{40}$/i.test(ref)) return ref.toLowerCase();
+
+  const candidates = ref === 'HEAD' ? ['HEAD'] : [`refs/tags/${ref}`, `refs/heads/${ref}`, ref];
+  for (const candidate of candidates) {
+    const path = join(gitDir, candidate);
+    if (existsSync(path)) {
+      const content = (await readFile(path, 'utf-8')).trim();
+      const symbolic = content.match(/^ref: (.+)$/);
+      return symbolic ? resolveGitRef(dir, symbolic[1]) : peelTag(gitDir, content);
+    }
+  }
+
+  const packedRefs = join(gitDir, 'packed-refs');
+  if (existsSync(packedRefs)) {
+    const lines = (await readFile(packedRefs, 'utf-8')).split('\n');
+    for (const [i, line] of lines.entries()) {
+      const [commit, name] = line.split(' ');
+      if (!candidates.includes(name)) continue;
+      // Annotated tags are followed by a "^<commit>" line with the tagged commit
+      const peeled = lines[i + 1]?.match(/^\^([0-9a-f]{40})/);
+      return peeled ? peeled[1] : commit;
+    }
+  }
+  return null;
+}
+
+/**
+ * Read the XML books of a local checkout, or of its `wlc` directory.
+ */
+async function openDirectory(dir: string, revision?: string): Promise<BookSource> {
+  const wlcDir = existsSync(join(dir, 'wlc')) ? join(dir, 'wlc') : dir;
+  const head = await resolveGitRef(dir, 'HEAD');
+
+  if (revision && head) {
+    const pinned = await resolveGitRef(dir, revision);
+    if (pinned !== head && !head.startsWith(revision.toLowerCase())) {
+      throw new Error(`Checkout ${dir} is at ${head}, not ${revision}`);
+    }
+  }
+  const resolved = head ?? revision;
+  if (!resolved) {
+    throw new Error(`Cannot tell which revision ${dir} holds; pass --revision`);
+  }
+
+  return {
+    revision: resolved,
+    async readBook(bookName) {
+      return readFile(join(wlcDir, bookName), 'utf-8');
+    },
+    streamBook(bookName) {
+      return createReadStream(join(wlcDir, bookName), { encoding: 'utf-8' });
+    },
+  };
+}
+
+/**
+ * Read a value from a pax extended header block.
+ */
+function paxValue(block: Uint8Array, key: string): string | undefined {
+  const text = new TextDecoder().decode(block);
+  return text.match(new RegExp(`^\\d+ ${key}=(.*)$`, 'm'))?.[1];
+}
+
+/**
+ * List the XML files in a `.tar.gz` archive, such as GitHub's
+ * `morphhb-<revision>.tar.gz`, together with the commit `git archive`
+ * records in the archive's global header.
+ */
+export function readTarball(archive: Uint8Array): { files: Map<string, string>; commit?: string } {
+  const tar = gunzipSync(archive);
+  const decoder = new TextDecoder();
+  const field = (offset: number, length: number) =>
+    decoder.decode(tar.subarray(offset, offset + length)).replace(/\0.*$/s, '');
+
+  const files = new Map<string, string>();
+  let commit: string | undefined;
+  let longName: string | undefined;
+  let offset = 0;
+
+  while (offset + 512 <= tar.length && tar[offset] !== 0) {
+    const size = parseInt(field(offset + 124, 12).trim() || '0', 8);
+    const type = field(offset + 156, 1);
+    const prefix = field(offset + 345, 155);
+    const name = longName ?? (prefix ? `${prefix}/${field(offset, 100)}` : field(offset, 100));
+    const body = tar.subarray(offset + 512, offset + 512 + size);
+    longName = undefined;
+
+    if (type === 'g') {
+      commit = paxValue(body, 'comment') ?? commit;
+    } else if (type === 'x') {
+      longName = paxValue(body, 'path');
+    } else if (type === 'L') {
+      longName = decoder.decode(body).replace(/\0.*$/s, '');
+    } else if ((type === '0' || type === '') && /(^|\/)wlc\/[^/]+\.xml$/.test(name)) {
+      files.set(basename(name), decoder.decode(body));
+    }
+    offset += 512 + Math.ceil(size / 512) * 512;
+  }
+  return { files, commit };
+}
+
+async function openTarball(path: string, revision?: string): Promise<BookSource> {
+  const { files, commit } = readTarball(await readFile(path));
+  if (files.size === 0) {
+    throw new Error(`No wlc/*.xml books in ${path}`);
+  }
+  if (revision && commit && /^[0-9a-f]{7,40}$/i.test(revision) && !commit.startsWith(revision.toLowerCase())) {
+    throw new Error(`Archive ${path} holds ${commit}, not ${revision}`);
+  }
+  const resolved = commit ?? revision;
+  if (!resolved) {
+    throw new Error(`Cannot tell which revision ${path} holds; pass --revision`);
+  }
+
+  const readBook = async (bookName: string): Promise<string> => {
+    const xml = files.get(bookName);
+    if (xml === undefined) throw new Error(`${bookName} not found in ${path}`);
+    return xml;
+  };
+
+  // The archive is unpacked in memory already
+  return {
+    revision: resolved,
+    readBook,
+    async *streamBook(bookName) {
+      yield await readBook(bookName);
+    },
+  };
+}
+
+/**
+ * Resolve a branch or tag of the MorphHB repository on GitHub to its commit.
+ *
+ * @throws Error if GitHub does not know the ref
+ */
+export async function resolveRemoteRef(ref: string): Promise<string> {
+  if (/^[0-9a-f]{40}$/i.test(ref)) return ref.toLowerCase();
+
+  const response = await fetch(`${COMMITS_URL}/${encodeURIComponent(ref)}`, {
+    headers: { 'User-Agent': 'Mozilla/5.0', Accept: 'application/vnd.github.sha' }
+  });
+  const commit = response.ok ? (await response.text()).trim() : '';
+  if (!/^[0-9a-f]{40}$/i.test(commit)) {
+    throw new Error(`Cannot resolve MorphHB revision ${ref}: ${response.status}`);
+  }
+  return commit.toLowerCase();
+}
+
+/**
+ * Download books from GitHub at a revision, keeping them in `cacheDir`.
+ * Branches and tags are resolved to their commit first, so the books all come
+ * from, and are recorded as, one commit.
+ */
+async function openDownload(revision: string, cacheDir: string): Promise<BookSource> {
+  const commit = await resolveRemoteRef(revision);
+  const revisionDir = join(cacheDir, commit);
+
+  // Download a book unless it is cached, returning its path
+  const fetchBook = async (bookName: string): Promise<string> => {
+    const xmlPath = join(revisionDir, bookName);
+    if (existsSync(xmlPath)) {
+      return xmlPath;
+    }
+
+    const url = `${RAW_URL}/${commit}/wlc/${bookName}`;
+    const response = await fetch(url, {
+      headers: { 'User-Agent': 'Mozilla/5.0' }
+    });
+    if (!response.ok) {
+      throw new Error(`Failed to download ${bookName}: ${response.status}`);
+    }
+
+    const xml = await response.text();
+    await mkdir(revisionDir, { recursive: true });
+    await writeFile(xmlPath, xml, 'utf-8');
+    return xmlPath;
+  };
+
+  return {
+    revision: commit,
+    async readBook(bookName) {
+      return readFile(await fetchBook(bookName), 'utf-8');
+    },
+    async *streamBook(bookName) {
+      yield* createReadStream(await fetchBook(bookName), { encoding: 'utf-8' });
+    },
+  };
+}
+
+/**
+ * Open the source the importer reads books from.
+ */
+export async function openSource(options: OpenSourceOptions): Promise<BookSource> {
+  if (!options.from) {
+    return openDownload(options.revision ?? DEFAULT_REVISION, options.cacheDir);
+  }
+  if (!existsSync(options.from)) {
+    throw new Error(`Source ${options.from} not found`);
+  }
+  if ((await stat(options.from)).isDirectory()) {
+    return openDirectory(options.from, options.revision);
+  }
+  if (/\.(tar\.gz|tgz)$/.test(options.from)) {
+    return openTarball(options.from, options.revision);
+  }
+  throw new Error(`Source ${options.from} is not a directory or .tar.gz archive`);
+}
@@ -0,0 +1,697 @@
+/**
+ * OSIS parser for MorphHB book XML, shared by the importer, the test-verse
+ * updater and the tests.
+ *
+ * `OsisParser` reads the XML in document order, as a stream if need be, into
+ * verses of words with their lemma, morph, Strong's numbers, Qere/Ketiv
+ * variant, punctuation and notes; `toVerseData` turns a parsed verse into the
+ * stored verse JSON.
+ */
+
+import { lemmaStrongs, segmentWord } from '../src/segments.js';
+import { joinWords, normalizeHebrew } from '../src/text.js';
+import { computeGematria, verseGematria } from '../src/gematria.js';
+import type { Gematria } from '../src/gematria.js';
+import type { Normalization } from '../src/text.js';
+import type { MorphemeSegment, ParagraphMarker, Punctuation, TextualNote } from '../src/types.js';
+
+/**
+ * Parts of the OSIS markup the parser can keep:
+ * - `ketiv`: written words of a Qere/Ketiv variant (`<w type="x-ketiv">`)
+ * - `qere`: read words of a variant (`<rdg type="x-qere">`)
+ * - `notes`: textual-critical notes, anchored to the word each follows
+ * - `punctuation`: maqqef, sof pasuq and paseq after each word
+ * - `paragraphs`: petuchah and setumah markers after each verse
+ */
+export type OsisElement = 'ketiv' | 'qere' | 'notes' | 'punctuation' | 'paragraphs';
+
+export const OSIS_ELEMENTS: OsisElement[] = ['ketiv', 'qere', 'notes', 'punctuation', 'paragraphs'];
+
+export interface OsisParserOptions {
+  /** Normalize word text to this level (default: keep the text as written) */
+  normalization?: Normalization;
+  /** Elements to keep (default: all) */
+  keep?: OsisElement[];
+}
+
+/**
+ * A note before its position is known: the word it follows is assigned when
+ * the verse is stored.
+ */
+export type ParsedNote = Omit<TextualNote, 'position'>;
+
+export interface ParsedWord {
+  position: number;
+  text: string;
+  lemma?: string | null;
+  morph?: string | null;
+  strongs?: string[];
+  variant?: 'ketiv' | 'qere';
+  punctuation?: Punctuation;
+  metadata?: Record<string, unknown>;
+  /** Raw source data preserved for reference */
+  source?: {
+    /** Original lemma attribute value */
+    lemma?: string;
+    /** Original morph attribute value */
+    morph?: string;
+    /** Original element type (e.g., x-ketiv, x-qere) */
+    type?: string;
+  };
+  /** Notes that follow this word */
+  notes?: ParsedNote[];
+}
+
+export interface ParsedVerse {
+  book: string;
+  chapter: number;
+  number: number;
+  text: string;
+  words: ParsedWord[];
+  /** Notes before the verse's first word */
+  notes?: ParsedNote[];
+  paragraph?: ParagraphMarker;
+}
+
+export interface WordEntry extends Omit<ParsedWord, 'notes'> {
+  /** Prefix, stem and suffix pieces of lemma/morph */
+  segments?: MorphemeSegment[];
+  gematria?: Gematria;
+}
+
+/**
+ * A verse as stored in `data/openscriptures-OHB/<book>/<chapter>/<verse>.json`.
+ */
+export interface VerseData {
+  text: string;
+  words: WordEntry[];
+  /** Total gematria of the written words */
+  gematria?: Gematria;
+  /** Textual-critical notes, anchored to the word each follows */
+  notes?: TextualNote[];
+  /** Masoretic paragraph break that follows this verse */
+  paragraph?: ParagraphMarker;
+}
+
+// Hebrew maqqef character (U+05BE) - used as a word connector like a hyphen
+const MAQQEF = '\u05BE';
+
+// Paragraph marker seg types: פ (pe) = petuchah (open), ס (samekh) = setumah (closed)
+const PARAGRAPH_SEG_TYPES: Record<string, ParagraphMarker> = {
+  'x-pe': 'petuchah',
+  'x-samekh': 'setumah',
+};
+
+// Punctuation seg types that are kept as metadata on the preceding word
+const PUNCTUATION_SEG_TYPES: Record<string, Punctuation> = {
+  'x-maqqef': 'maqqef',
+  'x-sof-pasuq': 'sofPasuq',
+  'x-paseq': 'paseq',
+};
+
+/**
+ * A start tag, end tag or run of text, in document order.
+ */
+type XmlToken =
+  | { kind: 'start'; name: string; attributes: Record<string, string>; selfClosing: boolean }
+  | { kind: 'end'; name: string }
+  | { kind: 'text'; text: string };
+
+const XML_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+const ATTRIBUTE_RE = /([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+// Markup whose end is a fixed string rather than the next unquoted ">"
+const DELIMITED_MARKUP: Array<[string, string]> = [
+  ['<!--', '-->'],
+  ['<![CDATA[', ']]>'],
+  ['<?', '?>'],
+];
+
+function decodeEntities(text: string): string {
+  if (!text.includes('&')) return text;
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, name: string) => {
+    if (name[0] !== '#') return XML_ENTITIES[name] ?? entity;
+    const hex = name[1] === 'x' || name[1] === 'X';
+    return String.fromCodePoint(parseInt(name.slice(hex ? 2 : 1), hex ? 16 : 10));
+  });
+}
+
+/**
+ * Turn one complete piece of markup into a token. Comments, processing
+ * instructions and doctypes give none.
+ */
+function parseMarkup(markup: string): XmlToken | null {
+  if (markup.startsWith('<![CDATA[')) {
+    return { kind: 'text', text: markup.slice(9, -3) };
+  }
+  if (markup.startsWith('<!') || markup.startsWith('<?')) return null;
+  if (markup.startsWith('</')) {
+    return { kind: 'end', name: markup.slice(2, -1).trim() };
+  }
+
+  const selfClosing = markup.endsWith('/>');
+  const body = markup.slice(1, selfClosing ? -2 : -1);
+  const name = body.match(/^[^\s/>]+/)?.[0] ?? '';
+  const attributes: Record<string, string> = {};
+  for (const [, key, double, single] of body.slice(name.length).matchAll(ATTRIBUTE_RE)) {
+    attributes[key] = decodeEntities(double ?? single);
+  }
+  return { kind: 'start', name, attributes, selfClosing };
+}
+
+/**
+ * Split XML into tokens as it arrives. A chunk may end anywhere, even inside
+ * a tag: the unfinished part waits for the chunks that complete it.
+ */
+class XmlTokenizer {
+  private buffer = '';
+
+  *write(chunk: string): Generator<XmlToken> {
+    this.buffer += chunk;
+    let offset = 0;
+    for (;;) {
+      // Text is held back until the markup after it has arrived
+      const start = this.buffer.indexOf('<', offset);
+      if (start < 0) break;
+      const end = this.markupEnd(start);
+      if (end < 0) break;
+
+      if (start > offset) {
+        yield { kind: 'text', text: decodeEntities(this.buffer.slice(offset, start)) };
+      }
+      const token = parseMarkup(this.buffer.slice(start, end));
+      if (token) yield token;
+      offset = end;
+    }
+    this.buffer = this.buffer.slice(offset);
+  }
+
+  /**
+   * Finish the document, giving any text after its last tag.
+   *
+   * @throws Error if the XML ends inside markup
+   */
+  *end(): Generator<XmlToken> {
+    if (this.buffer.includes('<')) {
+      throw new Error('XML ends inside a tag');
+    }
+    if (this.buffer) yield { kind: 'text', text: decodeEntities(this.buffer) };
+    this.buffer = '';
+  }
+
+  /**
+   * Index just past the markup at `start`, or -1 if it has not all arrived.
+   */
+  private markupEnd(start: number): number {
+    const buffer = this.buffer;
+    const delimited = this.delimitedEnd(start);
+    if (delimited !== undefined) return delimited;
+
+    // Attribute and declaration values may hold ">", and a DOCTYPE's internal
+    // subset ("[...]") holds declarations and comments of its own
+    const declaration = buffer.startsWith('<!', start);
+    let quote = '';
+    let subset = false;
+    for (let i = start + 1; i < buffer.length; i++) {
+      const char = buffer[i];
+      if (quote) {
+        if (char === quote) quote = '';
+      } else if (char === '"' || char === "'") {
+        quote = char;
+      } else if (subset && char === '<') {
+        const end = this.delimitedEnd(i);
+        if (end === -1) return -1;
+        if (end !== undefined) i = end - 1;
+      } else if (declaration && char === '[') {
+        subset = true;
+      } else if (subset && char === ']') {
+        subset = false;
+      } else if (char === '>' && !subset) {
+        return i + 1;
+      }
+    }
+    return -1;
+  }
+
+  /**
+   * Index just past a comment, CDATA section or processing instruction at
+   * `at`, -1 if it has not all arrived, or undefined if there is none.
+   */
+  private delimitedEnd(at: number): number | undefined {
+    for (const [open, close] of DELIMITED_MARKUP) {
+      if (this.buffer.startsWith(open, at)) {
+        const end = this.buffer.indexOf(close, at + open.length);
+        return end < 0 ? -1 : end + close.length;
+      }
+    }
+    return undefined;
+  }
+}
+
+/**
+ * Strip morpheme dividers and extra whitespace from note text.
+ */
+function noteText(text: string): string {
+  return text.replace(/\//g, '').replace(/\s+/g, ' ').trim();
+}
+
+interface OpenVerse {
+  osisId: string;
+  words: ParsedWord[];
+  notes: ParsedNote[];
+  paragraph?: ParagraphMarker;
+  /** Opened by a `<verse sID>` milestone, and closed by its `<verse eID>` */
+  milestone: boolean;
+}
+
+/**
+ * A textual-critical note being read. Notes holding a qere reading are
+ * dropped when they end, as the reading was read as words.
+ */
+interface OpenNote {
+  type: string;
+  /** Word the note follows, or none before the verse's first word */
+  anchor?: ParsedWord;
+  prose: string;
+  readings: Array<{ type: string; text: string }>;
+  /** Copy of the ketiv a qere note is about */
+  catchWord?: string;
+  hasQere: boolean;
+}
+
+/**
+ * Build verses from XML tokens, in document order, and emit each verse as
+ * soon as it ends: at `</verse>`, or at the `<verse eID>` milestone matching
+ * a `<verse sID>`.
+ *
+ * Words, punctuation, notes and qere readings are taken in the order they
+ * appear, so a seg or note belongs to the word just before it and qere words
+ * follow the ketiv they replace.
+ */
+class OsisReader {
+  private readonly tokenizer = new XmlTokenizer();
+  private verse?: OpenVerse;
+  /** Elements open inside the verse, with what to do when each ends */
+  private open: Array<{ name: string; close?: () => void }> = [];
+  /** Depth inside an element whose content is skipped */
+  private skipDepth = 0;
+  private word?: { attributes: Record<string, string>; text: string };
+  private note?: OpenNote;
+  private reading?: { type: string; text: string };
+  private qereDepth = 0;
+  private inCatchWord = false;
+  /** Whether the last `<w>` was marked `type="x-ketiv"` */
+  private ketivMarked = false;
+  /** Word a following punctuation seg belongs to */
+  private punctuable?: ParsedWord;
+
+  constructor(
+    private readonly keep: Set<OsisElement>,
+    private readonly normalize: (text: string) => string
+  ) {}
+
+  *write(chunk: string): Generator<ParsedVerse> {
+    for (const token of this.tokenizer.write(chunk)) {
+      yield* this.read(token);
+    }
+  }
+
+  *end(): Generator<ParsedVerse> {
+    for (const token of this.tokenizer.end()) {
+      yield* this.read(token);
+    }
+    const verse = this.finishVerse();
+    if (verse) yield verse;
+  }
+
+  private *read(token: XmlToken): Generator<ParsedVerse> {
+    if (this.skipDepth > 0) {
+      if (token.kind === 'start' && !token.selfClosing) this.skipDepth++;
+      if (token.kind === 'end') this.skipDepth--;
+      return;
+    }
+    if (token.kind === 'text') {
+      this.text(token.text);
+      return;
+    }
+
+    // Tags inside a note separate its words
+    if (this.inNote()) this.text(' ');
+
+    if (token.kind === 'end') {
+      if (token.name === 'verse' && this.verse && !this.verse.milestone) {
+        const verse = this.finishVerse();
+        if (verse) yield verse;
+      } else if (this.open[this.open.length - 1]?.name === token.name) {
+        this.open.pop()!.close?.();
+      }
+      return;
+    }
+
+    const { name, attributes, selfClosing } = token;
+    if (name === 'verse') {
+      const osisId = attributes.sID ?? attributes.osisID;
+      const opens =
+        !attributes.eID && osisId?.split('.').length === 3 && (!selfClosing || attributes.sID !== undefined);
+      if (attributes.eID || opens) {
+        const verse = this.finishVerse();
+        if (verse) yield verse;
+      }
+      if (opens) this.verse = { osisId, words: [], notes: [], milestone: selfClosing };
+      return;
+    }
+    if (this.verse) this.start(name, attributes, selfClosing);
+  }
+
+  private inNote(): boolean {
+    return this.note !== undefined && this.qereDepth === 0;
+  }
+
+  private start(name: string, attributes: Record<string, string>, selfClosing: boolean): void {
+    const type = attributes.type;
+    const skip = () => {
+      if (!selfClosing) this.skipDepth = 1;
+    };
+    let close: (() => void) | undefined;
+
+    if (name === 'w' && !this.inNote()) {
+      this.punctuable = undefined;
+      this.ketivMarked = type === 'x-ketiv';
+      if (type === 'x-ketiv' && !this.keep.has('ketiv')) return skip();
+      this.word = { attributes, text: '' };
+      close = () => this.finishWord();
+    } else if (name === 'seg' && type && PUNCTUATION_SEG_TYPES[type]) {
+      if (this.keep.has('punctuation') && this.punctuable) {
+        this.punctuable.punctuation = PUNCTUATION_SEG_TYPES[type];
+      }
+      this.punctuable = undefined;
+      return skip();
+    } else if (name === 'seg' && type && PARAGRAPH_SEG_TYPES[type]) {
+      // Record paragraph markers on the verse rather than as words
+      if (this.keep.has('paragraphs')) this.verse!.paragraph = PARAGRAPH_SEG_TYPES[type];
+      return skip();
+    } else if (name === 'seg' && type?.startsWith('x-')) {
+      return skip();
+    } else if (name === 'catchWord' && this.inNote()) {
+      // A copy of the ketiv the note is about
+      this.note!.catchWord = '';
+      this.inCatchWord = true;
+      close = () => (this.inCatchWord = false);
+    } else if (name === 'catchWord') {
+      return skip();
+    } else if (name === 'note' && !this.note) {
+      const words = this.verse!.words;
+      this.note = { type: type ?? 'note', anchor: words[words.length - 1], prose: '', readings: [], hasQere: false };
+      close = () => this.finishNote();
+    } else if (name === 'rdg' && type === 'x-qere') {
+      if (this.note && !this.note.hasQere) {
+        this.note.hasQere = true;
+        if (this.note.catchWord !== undefined && !this.ketivMarked) this.markKetiv(this.note.catchWord);
+      }
+      if (!this.keep.has('qere')) return skip();
+      this.qereDepth++;
+      close = () => this.qereDepth--;
+    } else if (name === 'rdg') {
+      // Alternative readings, such as accents, belong to their note
+      if (!this.inNote()) return skip();
+      const reading = { type: type ?? this.note!.type, text: '' };
+      this.note!.readings.push(reading);
+      this.reading = reading;
+      close = () => (this.reading = undefined);
+    }
+
+    if (selfClosing) close?.();
+    else this.open.push({ name, close });
+  }
+
+  private text(text: string): void {
+    if (!this.verse) return;
+    if (this.word) {
+      this.word.text += text;
+    } else if (this.inCatchWord) {
+      this.note!.catchWord += text;
+    } else if (this.inNote()) {
+      if (this.reading) this.reading.text += text;
+      else this.note!.prose += text;
+    } else {
+      this.addBareWords(text);
+    }
+  }
+
+  // Maqqef-only entries are punctuation on the previous word, not words
+  private markMaqqef(): void {
+    const words = this.verse!.words;
+    if (this.keep.has('punctuation') && words.length > 0) words[words.length - 1].punctuation = 'maqqef';
+  }
+
+  /**
+   * Add text outside any `<w>` as words without lemma or morph.
+   */
+  private addBareWords(text: string): void {
+    const words = this.verse!.words;
+    for (const piece of text.replace(/\//g, '').trim().split(/\s+/).filter(Boolean)) {
+      if (piece === MAQQEF) {
+        this.markMaqqef();
+        continue;
+      }
+      const normalized = this.normalize(piece);
+      if (!normalized) continue;
+      words.push({
+        position: words.length + 1,
+        text: normalized,
+        lemma: null,
+        morph: null,
+        metadata: { unlemmatized: true },
+        source: {},
+      });
+    }
+  }
+
+  private finishWord(): void {
+    const { attributes, text } = this.word!;
+    this.word = undefined;
+
+    const words = this.verse!.words;
+    const { lemma, morph, type } = attributes;
+    const strongs = lemmaStrongs(lemma);
+
+    // Build source object to preserve raw attributes
+    const source: { lemma?: string; morph?: string; type?: string } = {};
+    if (lemma) source.lemma = lemma;
+    if (morph) source.morph = morph;
+    if (type) source.type = type;
+
+    let last: ParsedWord | undefined;
+    for (const piece of text.replace(/\//g, '').trim().split(/\s+/).filter(Boolean)) {
+      if (piece === MAQQEF) {
+        this.markMaqqef();
+        last = undefined;
+        continue;
+      }
+      const normalized = this.normalize(piece);
+      if (!normalized) continue;
+
+      last = {
+        position: words.length + 1,
+        text: normalized,
+        lemma: lemma || null,
+        morph: morph || null,
+        strongs: strongs.length > 0 ? strongs : undefined,
+        variant: type === 'x-ketiv' ? 'ketiv' : this.qereDepth > 0 ? 'qere' : undefined,
+        source: Object.keys(source).length > 0 ? { ...source } : undefined,
+      };
+      words.push(last);
+    }
+    this.punctuable = last;
+  }
+
+  /**
+   * Mark the words just read as ketiv when a qere note's catchWord repeats
+   * them, for MorphHB releases that do not mark ketiv `<w>` elements with
+   * `type="x-ketiv"`.
+   */
+  private markKetiv(catchWord: string): void {
+    const words = this.verse!.words;
+    // The catchWord may join the ketiv words with spaces, maqqefs or nothing
+    const target = this.normalize(catchWord.replace(/[\s\/\u05BE]+/g, ''));
+    if (!target) return;
+
+    let start = words.length;
+    let text = '';
+    while (start > 0 && text.length < target.length && !words[start - 1].variant) {
+      start--;
+      text = words[start].text + text;
+    }
+    if (text !== target) return;
+
+    if (this.keep.has('ketiv')) {
+      for (const word of words.slice(start)) word.variant = 'ketiv';
+    } else {
+      words.splice(start);
+      this.punctuable = undefined;
+    }
+  }
+
+  private finishNote(): void {
+    const note = this.note!;
+    this.note = undefined;
+    if (note.hasQere || !this.keep.has('notes')) return;
+
+    const prose = noteText(note.prose);
+    let parsed: ParsedNote[] = note.readings.map(({ type, text }) => {
+      const reading: ParsedNote = { type, reading: noteText(text) };
+      if (prose) reading.text = prose;
+      return reading;
+    });
+    if (parsed.length === 0 && prose) parsed = [{ type: note.type, text: prose }];
+
+    if (note.anchor) {
+      (note.anchor.notes ??= []).push(...parsed);
+    } else {
+      this.verse!.notes.push(...parsed);
+    }
+  }
+
+  private finishVerse(): ParsedVerse | null {
+    const verse = this.verse;
+    this.verse = undefined;
+    this.open = [];
+    this.word = undefined;
+    this.note = undefined;
+    this.reading = undefined;
+    this.qereDepth = 0;
+    this.inCatchWord = false;
+    this.ketivMarked = false;
+    this.punctuable = undefined;
+    if (!verse || verse.words.length === 0) return null;
+
+    const [book, chapter, number] = verse.osisId.split('.');
+    return {
+      book,
+      chapter: parseInt(chapter, 10),
+      number: parseInt(number, 10),
+      text: joinWords(verse.words),
+      words: verse.words,
+      notes: verse.notes.length > 0 ? verse.notes : undefined,
+      paragraph: verse.paragraph,
+    };
+  }
+}
+
+export class OsisParser {
+  private readonly normalization?: Normalization;
+  private readonly keep: Set<OsisElement>;
+
+  constructor(options: OsisParserOptions = {}) {
+    this.normalization = options.normalization;
+    this.keep = new Set(options.keep ?? OSIS_ELEMENTS);
+  }
+
+  /**
+   * Parse every `<verse osisID="Book.C.V">` in a book, or in a fragment
+   * holding one or more verses.
+   */
+  parse(xml: string): ParsedVerse[] {
+    const reader = this.reader();
+    return [...reader.write(xml), ...reader.end()];
+  }
+
+  /**
+   * Parse a book as it is read, yielding each verse as soon as it ends, so
+   * the book is never held in memory whole. Chunks may split the XML
+   * anywhere, even inside a tag or a character reference.
+   */
+  async *stream(chunks: AsyncIterable<string> | Iterable<string>): AsyncGenerator<ParsedVerse> {
+    const reader = this.reader();
+    for await (const chunk of chunks) {
+      yield* reader.write(chunk);
+    }
+    yield* reader.end();
+  }
+
+  private reader(): OsisReader {
+    return new OsisReader(this.keep, text =>
+      this.normalization ? normalizeHebrew(text, this.normalization) : text
+    );
+  }
+}
+
+/**
+ * Check if a word is a textual critical note rather than actual scripture.
+ * These notes compare manuscript variants and have no lemma, no morphology,
+ * and no Hebrew letters (non-Hebrew text like "We read one or more accents in L differently than BHS").
+ *
+ * The parser keeps notes out of the words; this catches any note text left
+ * among them.
+ */
+function isTextualCriticalNote(w: ParsedWord): boolean {
+  if (w.lemma || w.morph) return false;
+  // Check if text contains Hebrew letters (U+0590-U+05FF range)
+  const hasHebrew = /[\u0590-\u05FF]/.test(w.text);
+  return !hasHebrew;
+}
+
+/**
+ * Check if a word is a paragraph marker (parashah marker) rather than actual scripture.
+ * פ (pe) = petuchah (open paragraph), ס (samekh) = setumah (closed paragraph)
+ */
+function isParagraphMarker(w: ParsedWord): boolean {
+  return !w.lemma && !w.morph && (w.text === 'פ' || w.text === 'ס');
+}
+
+/**
+ * Build the stored verse from a parsed one: drop note text and paragraph
+ * markers left among the words, renumber positions, anchor notes to words,
+ * and add segments, gematria and the verse text.
+ */
+export function toVerseData(verse: ParsedVerse): VerseData {
+  const words: WordEntry[] = [];
+  const notes: TextualNote[] = (verse.notes ?? []).map(note => ({ ...note, position: 0 }));
+  let paragraph = verse.paragraph;
+  let position = 1;
+  for (const w of verse.words) {
+    if (isTextualCriticalNote(w)) continue;
+    if (isParagraphMarker(w)) {
+      paragraph = w.text === 'פ' ? 'petuchah' : 'setumah';
+      continue;
+    }
+    for (const note of w.notes ?? []) {
+      notes.push({ ...note, position });
+    }
+
+    const metadata: Record<string, unknown> = { ...w.metadata };
+    if (w.lemma && !/\d/.test(w.lemma)) {
+      metadata.isPrefixOnly = true;
+    }
+
+    words.push({
+      position: position++,
+      text: w.text,
+      lemma: w.lemma,
+      morph: w.morph,
+      strongs: w.strongs,
+      variant: w.variant,
+      punctuation: w.punctuation,
+      metadata,
+      source: w.source,
+      segments: segmentWord(w.lemma, w.morph),
+      gematria: computeGematria(w.text),
+    });
+  }
+
+  // Words not followed by a maqqef, paseq or sof pasuq are followed by a space
+  for (const w of words.slice(0, -1)) {
+    w.punctuation ??= 'space';
+  }
+
+  // Rebuild text from filtered words (excludes textual critical notes)
+  const data: VerseData = {
+    text: joinWords(words),
+    words,
+    gematria: verseGematria(words),
+  };
+  if (notes.length > 0) data.notes = notes;
+  if (paragraph) data.paragraph = paragraph;
+  return data;
+}
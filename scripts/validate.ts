@@ -0,0 +1,110 @@
+/**
+ * Check the imported verse data against the corpus invariants in
+ * src/validation.ts, and the verse count of every chapter against the
+ * reference table in scripts/wlc-verse-counts.json.
+ *
+ * Prints a JSON report to stdout and exits with status 1 if any check fails.
+ *
+ * Usage: npx tsx scripts/validate.ts [--data data/openscriptures-OHB] [--books Gen,Ruth]
+ *                                    [--reference scripts/wlc-verse-counts.json]
+ */
+
+import { existsSync } from 'fs';
+import { readFile } from 'fs/promises';
+import { join, dirname, resolve } from 'path';
+import { fileURLToPath } from 'url';
+import { BOOK_TO_OSIS, resolveBook } from '../src/books.js';
+import { validateVerse, validateVerseCounts, VALIDATION_CHECKS } from '../src/validation.js';
+import type { ValidationCheck, ValidationIssue } from '../src/validation.js';
+import type { OhbVerseData } from '../src/types.js';
+import { listNumbered } from './data-files.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+const ROOT_DIR = join(__dirname, '..');
+
+interface Options {
+  dataDir: string;
+  books: string[];
+  referencePath: string;
+}
+
+interface ValidationReport {
+  ok: boolean;
+  dataDir: string;
+  books: number;
+  verses: number;
+  words: number;
+  /** Number of issues per check */
+  checks: Record<ValidationCheck, number>;
+  issues: ValidationIssue[];
+}
+
+function parseArgs(args: string[]): Options {
+  const options: Options = {
+    dataDir: join(ROOT_DIR, 'data', 'openscriptures-OHB'),
+    books: Object.values(BOOK_TO_OSIS),
+    referencePath: join(__dirname, 'wlc-verse-counts.json'),
+  };
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--data') {
+      options.dataDir = resolve(args[++i]);
+    } else if (args[i] === '--books') {
+      options.books = args[++i].split(',').map(book => resolveBook(book.trim()));
+    } else if (args[i] === '--reference') {
+      options.referencePath = resolve(args[++i]);
+    } else {
+      throw new Error(`Unknown argument '${args[i]}'`);
+    }
+  }
+  return options;
+}
+
+async function validate({ dataDir, books, referencePath }: Options): Promise<ValidationReport> {
+  const reference: Record<string, number[]> = JSON.parse(await readFile(referencePath, 'utf-8'));
+  const issues: ValidationIssue[] = [];
+  const verseCounts: Record<string, number[]> = {};
+  let verses = 0;
+  let words = 0;
+
+  for (const book of books) {
+    const bookDir = join(dataDir, book);
+    if (!existsSync(bookDir)) {
+      issues.push({ check: 'verseCounts', ref: book, message: `Book ${book} not found in ${dataDir}` });
+      continue;
+    }
+
+    const counts: number[] = (verseCounts[book] = []);
+    for (const chapter of await listNumbered(bookDir)) {
+      const chapterDir = join(bookDir, String(chapter));
+      const verseNumbers = await listNumbered(chapterDir, '.json');
+      counts[chapter - 1] = verseNumbers.length;
+
+      for (const verse of verseNumbers) {
+        const data = JSON.parse(await readFile(join(chapterDir, `${verse}.json`), 'utf-8')) as OhbVerseData;
+        issues.push(...validateVerse(book, chapter, verse, data));
+        verses++;
+        words += data.words.length;
+      }
+    }
+  }
+  issues.push(...validateVerseCounts(verseCounts, reference));
+
+  const checks = Object.fromEntries(VALIDATION_CHECKS.map(check => [check, 0])) as Record<ValidationCheck, number>;
+  for (const issue of issues) checks[issue.check]++;
+
+  return { ok: issues.length === 0, dataDir, books: books.length, verses, words, checks, issues };
+}
+
+async function main(): Promise<void> {
+  try {
+    const report = await validate(parseArgs(process.argv.slice(2)));
+    console.log(JSON.stringify(report, null, 2));
+    if (!report.ok) process.exit(1);
+  } catch (error) {
+    console.error('Validation failed:', error);
+    process.exit(1);
+  }
+}
+
+main();
@@ -0,0 +1,113 @@
+/**
+ * Loader backends: where the source reads data and cache files from.
+ *
+ * Locations are "/"-separated paths such as `data/openscriptures-OHB/Gen/1/1.json`,
+ * resolved against the backend's root. Backends reject missing files with an
+ * error whose `code` is `'ENOENT'`, as Node's fs does.
+ */
+
+export interface LoaderBackend {
+  /** Read a whole file as UTF-8 text */
+  readText(location: string): Promise<string>;
+  /** Read `length` bytes starting at `offset` */
+  readBytes(location: string, offset: number, length: number): Promise<Uint8Array>;
+  /**
+   * List the names in a directory. Backends that cannot list (such as
+   * `fetch`) omit this, and the source falls back to the `verseCounts` cache.
+   */
+  list?(location: string): Promise<string[]>;
+}
+
+/**
+ * Create the error backends use for missing files.
+ */
+export function notFoundError(location: string): Error & { code: string } {
+  return Object.assign(new Error(`File '${location}' not found`), { code: 'ENOENT' });
+}
+
+/**
+ * Check whether an error reports a missing file.
+ */
+export function isNotFound(error: unknown): boolean {
+  return (error as { code?: unknown } | null)?.code === 'ENOENT';
+}
+
+/**
+ * Join location segments with "/", ignoring empty ones.
+ */
+export function joinLocation(...parts: Array<string | number>): string {
+  return parts
+    .map(String)
+    .filter(Boolean)
+    .map((part, i) => (i === 0 ? part.replace(/\/+$/, '') : part.replace(/^\/+|\/+$/g, '')))
+    .join('/');
+}
+
+/**
+ * Read data over HTTP(S) relative to `baseUrl`, using `Range` requests for
+ * packed files. Works in browsers, Deno and edge runtimes.
+ */
+export function createFetchBackend(baseUrl: string | URL, init: RequestInit = {}): LoaderBackend {
+  const base = new URL(String(baseUrl).replace(/\/?$/, '/'));
+
+  async function request(location: string, headers: Record<string, string> = {}): Promise<Response> {
+    const response = await fetch(new URL(location, base), {
+      ...init,
+      headers: { ...(init.headers as Record<string, string> | undefined), ...headers },
+    });
+    if (response.status === 404) throw notFoundError(location);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch '${location}': ${response.status}`);
+    }
+    return response;
+  }
+
+  return {
+    async readText(location) {
+      return (await request(location)).text();
+    },
+    async readBytes(location, offset, length) {
+      if (length <= 0) return new Uint8Array(0);
+      const response = await request(location, { Range: `bytes=${offset}-${offset + length - 1}` });
+      const bytes = new Uint8Array(await response.arrayBuffer());
+      // Servers that ignore Range send the whole file
+      return response.status === 206 ? bytes : bytes.subarray(offset, offset + length);
+    },
+  };
+}
+
+/**
+ * Serve data from an in-memory map of locations to file contents, e.g. for
+ * tests or bundles that inline a few books.
+ */
+export function createMemoryBackend(files: Record<string, string | Uint8Array>): LoaderBackend {
+  const encoder = new TextEncoder();
+  const decoder = new TextDecoder();
+
+  function get(location: string): string | Uint8Array {
+    const content = files[location];
+    if (content === undefined) throw notFoundError(location);
+    return content;
+  }
+
+  return {
+    async readText(location) {
+      const content = get(location);
+      return typeof content === 'string' ? content : decoder.decode(content);
+    },
+    async readBytes(location, offset, length) {
+      const content = get(location);
+      const bytes = typeof content === 'string' ? encoder.encode(content) : content;
+      return bytes.subarray(offset, offset + length);
+    },
+    async list(location) {
+      const prefix = `${location.replace(/\/+$/, '')}/`;
+      const names = new Set<string>();
+      for (const key of Object.keys(files)) {
+        if (key.startsWith(prefix)) names.add(key.slice(prefix.length).split('/')[0]);
+      }
+      if (names.size === 0) throw notFoundError(location);
+      return [...names];
+    },
+  };
+}
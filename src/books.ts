@@ -0,0 +1,153 @@
+/**
+ * Book names and OSIS IDs for the Hebrew Bible.
+ */
+
+/**
+ * Hebrew Bible book name to OSIS mapping.
+ */
+export const BOOK_TO_OSIS: Record<string, string> = {
+  'Genesis': 'Gen', 'Exodus': 'Exod', 'Leviticus': 'Lev', 'Numbers': 'Num',
+  'Deuteronomy': 'Deut', 'Joshua': 'Josh', 'Judges': 'Judg', 'Ruth': 'Ruth',
+  '1 Samuel': '1Sam', '2 Samuel': '2Sam', '1 Kings': '1Kgs', '2 Kings': '2Kgs',
+  '1 Chronicles': '1Chr', '2 Chronicles': '2Chr', 'Ezra': 'Ezra', 'Nehemiah': 'Neh',
+  'Esther': 'Esth', 'Job': 'Job', 'Psalms': 'Ps', 'Proverbs': 'Prov',
+  'Ecclesiastes': 'Eccl', 'Song of Solomon': 'Song', 'Isaiah': 'Isa', 'Jeremiah': 'Jer',
+  'Lamentations': 'Lam', 'Ezekiel': 'Ezek', 'Daniel': 'Dan', 'Hosea': 'Hos',
+  'Joel': 'Joel', 'Amos': 'Amos', 'Obadiah': 'Obad', 'Jonah': 'Jonah',
+  'Micah': 'Mic', 'Nahum': 'Nah', 'Habakkuk': 'Hab', 'Zephaniah': 'Zeph',
+  'Haggai': 'Hag', 'Zechariah': 'Zech', 'Malachi': 'Mal',
+};
+
+/**
+ * Alternative names, SBL and common abbreviations, and Hebrew titles.
+ * English names and OSIS IDs are accepted without being listed here.
+ */
+const BOOK_ALIASES: Record<string, string[]> = {
+  Gen: ['Ge', 'Gn', 'בראשית'],
+  Exod: ['Ex', 'Exo', 'שמות'],
+  Lev: ['Le', 'Lv', 'ויקרא'],
+  Num: ['Nu', 'Nm', 'Nb', 'במדבר'],
+  Deut: ['Dt', 'De', 'דברים'],
+  Josh: ['Jos', 'Jsh', 'יהושע'],
+  Judg: ['Jdg', 'Jg', 'Jdgs', 'שופטים'],
+  Ruth: ['Rut', 'Ru', 'Rth', 'רות'],
+  '1Sam': ['1 Sa', '1 Sm', '1 Kingdoms', 'שמואל א'],
+  '2Sam': ['2 Sa', '2 Sm', '2 Kingdoms', 'שמואל ב'],
+  '1Kgs': ['1 Ki', '1 Kg', '1 Kin', '3 Kingdoms', 'מלכים א'],
+  '2Kgs': ['2 Ki', '2 Kg', '2 Kin', '4 Kingdoms', 'מלכים ב'],
+  '1Chr': ['1 Ch', '1 Chron', '1 Paralipomenon', 'דברי הימים א'],
+  '2Chr': ['2 Ch', '2 Chron', '2 Paralipomenon', 'דברי הימים ב'],
+  Ezra: ['Ezr', 'עזרא'],
+  Neh: ['Ne', 'נחמיה'],
+  Esth: ['Est', 'Es', 'אסתר'],
+  Job: ['Jb', 'איוב'],
+  Ps: ['Psalm', 'Psa', 'Pss', 'Psalter', 'תהלים', 'תהילים'],
+  Prov: ['Pro', 'Prv', 'Pr', 'משלי'],
+  Eccl: ['Eccles', 'Ecc', 'Ec', 'Qoheleth', 'Qohelet', 'Qoh', 'Koheleth', 'Kohelet', 'קהלת'],
+  Song: ['Song of Songs', 'Sg', 'SoS', 'Canticles', 'Canticle of Canticles', 'Cant', 'שיר השירים'],
+  Isa: ['Is', 'ישעיהו', 'ישעיה'],
+  Jer: ['Je', 'Jr', 'ירמיהו', 'ירמיה'],
+  Lam: ['La', 'איכה'],
+  Ezek: ['Eze', 'Ezk', 'יחזקאל'],
+  Dan: ['Da', 'Dn', 'דניאל'],
+  Hos: ['Ho', 'הושע'],
+  Joel: ['Jl', 'Jol', 'יואל'],
+  Amos: ['Am', 'עמוס'],
+  Obad: ['Ob', 'Oba', 'עובדיה'],
+  Jonah: ['Jon', 'Jnh', 'יונה'],
+  Mic: ['Mi', 'מיכה'],
+  Nah: ['Na', 'נחום'],
+  Hab: ['Hb', 'חבקוק'],
+  Zeph: ['Zep', 'Zp', 'צפניה'],
+  Hag: ['Hg', 'חגי'],
+  Zech: ['Zec', 'Zc', 'זכריה'],
+  Mal: ['Ml', 'מלאכי'],
+};
+
+/**
+ * Thrown when a book name cannot be resolved to a Hebrew Bible book.
+ */
+export class UnknownBookError extends Error {
+  readonly book: string;
+  /** English names of the closest known books */
+  readonly suggestions: string[];
+
+  constructor(book: string, suggestions: string[]) {
+    const hint = suggestions.length > 0 ? ` Did you mean ${suggestions.join(', ')}?` : '';
+    super(`Unknown book '${book}' in openscriptures-OHB.${hint}`);
+    this.name = 'UnknownBookError';
+    this.book = book;
+    this.suggestions = suggestions;
+  }
+}
+
+/**
+ * Normalize a book name for lookup: case, periods, spacing, Hebrew points
+ * and leading ordinals ("II Kings", "Second Kings") are ignored.
+ */
+function normalizeBookName(name: string): string {
+  return name
+    .normalize('NFC')
+    .replace(/[\u0591-\u05C7]/g, '')
+    .toLowerCase()
+    .replace(/[.\-_]/g, ' ')
+    .trim()
+    .replace(/^(?:ii|second|2nd)\s+/, '2')
+    .replace(/^(?:i|first|1st)\s+/, '1')
+    .replace(/\s+/g, '');
+}
+
+const OSIS_TO_NAME: Record<string, string> = Object.fromEntries(
+  Object.entries(BOOK_TO_OSIS).map(([name, osis]) => [osis, name])
+);
+
+const BOOK_INDEX = new Map<string, string>();
+for (const [name, osis] of Object.entries(BOOK_TO_OSIS)) {
+  for (const alias of [name, osis, ...BOOK_ALIASES[osis]]) {
+    BOOK_INDEX.set(normalizeBookName(alias), osis);
+  }
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Closest known books to an unrecognized name, as English names.
+ */
+function suggestBooks(key: string, limit = 3): string[] {
+  const best = new Map<string, number>();
+  for (const [alias, osis] of BOOK_INDEX) {
+    const distance = alias.startsWith(key) && key.length >= 2 ? 0 : editDistance(key, alias);
+    if (distance <= Math.max(2, Math.floor(alias.length / 3)) && distance < (best.get(osis) ?? Infinity)) {
+      best.set(osis, distance);
+    }
+  }
+  return [...best.entries()]
+    .sort((a, b) => a[1] - b[1])
+    .slice(0, limit)
+    .map(([osis]) => OSIS_TO_NAME[osis]);
+}
+
+/**
+ * Resolve a book name, abbreviation, OSIS ID or Hebrew title to its OSIS ID.
+ *
+ * @throws UnknownBookError if the name does not match any book
+ */
+export function resolveBook(book: string): string {
+  const key = normalizeBookName(book);
+  const osis = BOOK_INDEX.get(key);
+  if (!osis) {
+    throw new UnknownBookError(book, key ? suggestBooks(key) : []);
+  }
+  return osis;
+}
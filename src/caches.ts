@@ -0,0 +1,90 @@
+/**
+ * Prebuilt indexes served by `loadCache`.
+ *
+ * The import pipeline builds these from the verse data and writes them to
+ * `cache/<name>.json`.
+ */
+
+import type { Occurrence, WordEntry } from './types.js';
+
+/**
+ * A word occurrence: the OSIS verse ID followed by the word position,
+ * e.g. "Gen.1.1.2".
+ */
+export type OccurrenceRef = string;
+
+/**
+ * Contents of each cache, by name.
+ */
+export interface CacheData {
+  /** Strong's number ("H1254") to every word tagged with it */
+  strongs: Record<string, OccurrenceRef[]>;
+  /** Stem lemma, including homograph letter ("1254 a"), to every word with that stem */
+  lemmas: Record<string, OccurrenceRef[]>;
+  /** Full morphology code ("HVqp3ms") to the number of words with that code */
+  morphCodes: Record<string, number>;
+  /** OSIS book ID to the verse count of each chapter, starting with chapter 1 */
+  verseCounts: Record<string, number[]>;
+}
+
+export type CacheName = keyof CacheData;
+
+export const CACHE_NAMES: readonly CacheName[] = ['strongs', 'lemmas', 'morphCodes', 'verseCounts'];
+
+/**
+ * Check whether a string names a prebuilt cache.
+ */
+export function isCacheName(name: string): name is CacheName {
+  return (CACHE_NAMES as readonly string[]).includes(name);
+}
+
+/**
+ * Split an occurrence reference into its book, chapter, verse and position.
+ */
+export function parseOccurrenceRef(ref: OccurrenceRef): Occurrence {
+  const [book, chapter, verse, position] = ref.split('.');
+  return { book, chapter: Number(chapter), verse: Number(verse), position: Number(position) };
+}
+
+/**
+ * Accumulates caches one verse at a time, in canonical order.
+ */
+export class CacheBuilder {
+  private readonly caches: CacheData = {
+    strongs: {},
+    lemmas: {},
+    morphCodes: {},
+    verseCounts: {},
+  };
+
+  add(book: string, chapter: number, verse: number, words: WordEntry[]): void {
+    const counts = (this.caches.verseCounts[book] ??= []);
+    while (counts.length < chapter) counts.push(0);
+    counts[chapter - 1]++;
+
+    for (const word of words) {
+      const ref = `${book}.${chapter}.${verse}.${word.position}`;
+
+      for (const strongs of new Set(word.strongs ?? [])) {
+        (this.caches.strongs[strongs] ??= []).push(ref);
+      }
+
+      const stems = new Set(
+        (word.segments ?? [])
+          .filter(segment => segment.strongs && segment.lemma)
+          .map(segment => segment.lemma!)
+      );
+      for (const lemma of stems) {
+        (this.caches.lemmas[lemma] ??= []).push(ref);
+      }
+
+      if (word.morph) {
+        this.caches.morphCodes[word.morph] = (this.caches.morphCodes[word.morph] ?? 0) + 1;
+      }
+    }
+  }
+
+  build(): CacheData {
+    return this.caches;
+  }
+}
@@ -0,0 +1,177 @@
+/**
+ * Word-level differences between two builds of the verse data, for reviewing
+ * upstream MorphHB corrections before a release (see `scripts/diff.ts`).
+ *
+ * Words are aligned by their text, so an inserted or removed word shows up
+ * as one added or removed word instead of shifting every word after it.
+ */
+
+import type { OhbVerseData, WordEntry } from './types.js';
+
+/**
+ * Word fields the diff compares.
+ */
+export type DiffField = 'text' | 'lemma' | 'morph' | 'strongs' | 'variant';
+
+export const DIFF_FIELDS: DiffField[] = ['text', 'lemma', 'morph', 'strongs', 'variant'];
+
+export type DiffChange = 'added' | 'removed' | 'changed';
+
+export interface FieldChange<T = unknown> {
+  before: T;
+  after: T;
+}
+
+export interface WordDiff {
+  change: DiffChange;
+  /** Position in the earlier build, absent for added words */
+  before?: number;
+  /** Position in the later build, absent for removed words */
+  after?: number;
+  /** The word's text in the later build, or in the earlier one if removed */
+  text: string;
+  /** Fields that differ, for changed words */
+  fields?: Partial<Record<DiffField, FieldChange>>;
+}
+
+export interface VerseDiff {
+  book: string;
+  chapter: number;
+  verse: number;
+  change: DiffChange;
+  /** Verse text, when it differs; null on the side that lacks the verse */
+  text?: FieldChange<string | null>;
+  /** Word differences, for changed verses */
+  words: WordDiff[];
+}
+
+export interface DiffSummary {
+  verses: Record<DiffChange, number>;
+  words: Record<DiffChange, number>;
+  /** Number of changed words per field */
+  fields: Record<DiffField, number>;
+}
+
+// Value of a field with absent, null and empty treated alike
+function fieldValue(word: WordEntry, field: DiffField): unknown {
+  const value = word[field];
+  return value === null || (Array.isArray(value) && value.length === 0) ? undefined : value;
+}
+
+function compareWords(before: WordEntry, after: WordEntry): WordDiff | null {
+  const fields: Partial<Record<DiffField, FieldChange>> = {};
+  for (const field of DIFF_FIELDS) {
+    const a = fieldValue(before, field);
+    const b = fieldValue(after, field);
+    if (JSON.stringify(a) !== JSON.stringify(b)) fields[field] = { before: a ?? null, after: b ?? null };
+  }
+  if (Object.keys(fields).length === 0) return null;
+  return { change: 'changed', before: before.position, after: after.position, text: after.text, fields };
+}
+
+/**
+ * Align two word lists by a longest common subsequence of their texts. Runs
+ * of unmatched words between two matches are paired up in order, so a word
+ * whose text changed is compared rather than removed and re-added.
+ */
+function alignWords(before: WordEntry[], after: WordEntry[]): Array<[WordEntry?, WordEntry?]> {
+  const n = before.length;
+  const m = after.length;
+  const lengths = Array.from({ length: n + 1 }, () => new Array<number>(m + 1).fill(0));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lengths[i][j] = before[i].text === after[j].text
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const pairs: Array<[WordEntry?, WordEntry?]> = [];
+  let removed: WordEntry[] = [];
+  let added: WordEntry[] = [];
+  const flush = () => {
+    for (let k = 0; k < Math.max(removed.length, added.length); k++) {
+      pairs.push([removed[k], added[k]]);
+    }
+    removed = [];
+    added = [];
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < n || j < m) {
+    if (i < n && j < m && before[i].text === after[j].text) {
+      flush();
+      pairs.push([before[i++], after[j++]]);
+    } else if (j >= m || (i < n && lengths[i + 1][j] >= lengths[i][j + 1])) {
+      removed.push(before[i++]);
+    } else {
+      added.push(after[j++]);
+    }
+  }
+  flush();
+  return pairs;
+}
+
+/**
+ * Compare one verse across two builds, or return null if the compared fields
+ * are the same. Pass undefined for a build that lacks the verse.
+ */
+export function diffVerse(
+  book: string,
+  chapter: number,
+  verse: number,
+  before: OhbVerseData | undefined,
+  after: OhbVerseData | undefined
+): VerseDiff | null {
+  if (!before && !after) return null;
+  if (!before || !after) {
+    return {
+      book,
+      chapter,
+      verse,
+      change: before ? 'removed' : 'added',
+      text: { before: before?.text ?? null, after: after?.text ?? null },
+      words: [],
+    };
+  }
+
+  const words: WordDiff[] = [];
+  for (const [a, b] of alignWords(before.words, after.words)) {
+    if (a && b) {
+      const diff = compareWords(a, b);
+      if (diff) words.push(diff);
+    } else if (a) {
+      words.push({ change: 'removed', before: a.position, text: a.text });
+    } else if (b) {
+      words.push({ change: 'added', after: b.position, text: b.text });
+    }
+  }
+
+  const textChanged = before.text !== after.text;
+  if (words.length === 0 && !textChanged) return null;
+  const diff: VerseDiff = { book, chapter, verse, change: 'changed', words };
+  if (textChanged) diff.text = { before: before.text, after: after.text };
+  return diff;
+}
+
+/**
+ * Count the verse, word and field changes in a list of verse diffs.
+ */
+export function summarizeDiff(verses: VerseDiff[]): DiffSummary {
+  const summary: DiffSummary = {
+    verses: { added: 0, removed: 0, changed: 0 },
+    words: { added: 0, removed: 0, changed: 0 },
+    fields: { text: 0, lemma: 0, morph: 0, strongs: 0, variant: 0 },
+  };
+  for (const verse of verses) {
+    summary.verses[verse.change]++;
+    for (const word of verse.words) {
+      summary.words[word.change]++;
+      for (const field of Object.keys(word.fields ?? {}) as DiffField[]) {
+        summary.fields[field]++;
+      }
+    }
+  }
+  return summary;
+}
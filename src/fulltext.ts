@@ -0,0 +1,141 @@
+/**
+ * Full-text query parsing and matching over verse words.
+ *
+ * Query syntax:
+ * - `term`: a whole word; `*` matches any run of letters (`*ארץ` finds הארץ)
+ * - `"term term"`: a phrase of adjacent words
+ * - `a NEAR/n b`: `a` and `b` within `n` words of each other, in either order
+ *
+ * Space-separated clauses must all match within the same verse.
+ */
+
+import { qereWords } from './qere.js';
+import { normalizeHebrew } from './text.js';
+import type { Normalization } from './text.js';
+import type { WordEntry } from './types.js';
+
+/**
+ * A term or phrase, as a list of word matchers.
+ */
+type Operand = RegExp[];
+
+/**
+ * Operands chained by NEAR, with the allowed distance between each pair.
+ */
+interface Clause {
+  operands: Operand[];
+  distances: number[];
+}
+
+export interface TextQuery {
+  clauses: Clause[];
+  normalization: Normalization;
+}
+
+interface Span {
+  start: number;
+  end: number;
+}
+
+const TOKEN_RE = /"([^"]*)"|NEAR\/(\d+)|(\S+)/g;
+
+function termToRegExp(term: string, normalization: Normalization): RegExp {
+  const source = term
+    .split('*')
+    .map(piece => normalizeHebrew(piece, normalization).replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  if (!source.replace(/\.\*/g, '')) {
+    throw new Error(`Search term '${term}' has no Hebrew letters`);
+  }
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Parse a query string.
+ *
+ * @throws Error if the query is empty or an operator is misplaced
+ */
+export function parseTextQuery(query: string, normalization: Normalization): TextQuery {
+  const invalid = () => new Error(`Invalid search query '${query}'`);
+  const clauses: Clause[] = [];
+  let pendingDistance: number | undefined;
+  let match;
+  TOKEN_RE.lastIndex = 0;
+
+  while ((match = TOKEN_RE.exec(query)) !== null) {
+    const [, phrase, distance, term] = match;
+    if (distance !== undefined) {
+      if (clauses.length === 0 || pendingDistance !== undefined) throw invalid();
+      pendingDistance = parseInt(distance, 10);
+      continue;
+    }
+
+    const words = phrase !== undefined ? phrase.split(/\s+/).filter(Boolean) : [term];
+    if (words.length === 0) throw invalid();
+    const operand = words.map(word => termToRegExp(word, normalization));
+
+    if (pendingDistance !== undefined) {
+      const clause = clauses[clauses.length - 1];
+      clause.operands.push(operand);
+      clause.distances.push(pendingDistance);
+      pendingDistance = undefined;
+    } else {
+      clauses.push({ operands: [operand], distances: [] });
+    }
+  }
+
+  if (clauses.length === 0 || pendingDistance !== undefined) throw invalid();
+  return { clauses, normalization };
+}
+
+function findSpans(words: string[], operand: Operand): Span[] {
+  const spans: Span[] = [];
+  for (let start = 0; start + operand.length <= words.length; start++) {
+    if (operand.every((re, i) => re.test(words[start + i]))) {
+      spans.push({ start, end: start + operand.length - 1 });
+    }
+  }
+  return spans;
+}
+
+function isNear(a: Span, b: Span, distance: number): boolean {
+  const gap = a.start > b.end ? a.start - b.end : b.start - a.end;
+  return gap <= distance;
+}
+
+/**
+ * Spans of a clause's operands that take part in a complete NEAR chain.
+ */
+function matchClause(words: string[], clause: Clause): Span[] {
+  const spans = clause.operands.map(operand => findSpans(words, operand));
+
+  // Keep spans near a surviving span of the previous operand, then of the next
+  for (let i = 1; i < spans.length; i++) {
+    spans[i] = spans[i].filter(span => spans[i - 1].some(prev => isNear(prev, span, clause.distances[i - 1])));
+  }
+  for (let i = spans.length - 2; i >= 0; i--) {
+    spans[i] = spans[i].filter(span => spans[i + 1].some(next => isNear(span, next, clause.distances[i])));
+  }
+  return spans.some(list => list.length === 0) ? [] : spans.flat();
+}
+
+/**
+ * Match a query against a verse's words, returning the positions
+ * (`words[].position`) of every matched word, or null if the verse does not
+ * match. Qere words are read in place of their ketiv, so phrases follow the
+ * qere reading.
+ */
+export function matchTextQuery(words: WordEntry[], query: TextQuery): number[] | null {
+  const read = qereWords(words);
+  const normalized = read.map(word => normalizeHebrew(word.text, query.normalization));
+
+  const positions = new Set<number>();
+  for (const clause of query.clauses) {
+    const spans = matchClause(normalized, clause);
+    if (spans.length === 0) return null;
+    for (const { start, end } of spans) {
+      for (let i = start; i <= end; i++) positions.add(read[i].position);
+    }
+  }
+  return [...positions].sort((a, b) => a - b);
+}
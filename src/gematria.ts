@@ -0,0 +1,83 @@
+/**
+ * Gematria: numeric values of Hebrew words and verses.
+ */
+
+import type { OhbVerseData, WordEntry } from './types.js';
+
+/**
+ * How letters are counted: `standard` (mispar hechrechi, א=1 … ת=400),
+ * `ordinal` (mispar siduri, א=1 … ת=22), `reduced` (mispar katan, each
+ * letter's value without zeros, so י=1 and ת=4) and `finalForms` (mispar
+ * gadol, standard with the final letters ך ם ן ף ץ counted 500 to 900).
+ */
+export type GematriaMethod = 'standard' | 'ordinal' | 'reduced' | 'finalForms';
+
+export const GEMATRIA_METHODS: GematriaMethod[] = ['standard', 'ordinal', 'reduced', 'finalForms'];
+
+export type Gematria = Record<GematriaMethod, number>;
+
+const LETTERS = 'אבגדהוזחטיכלמנסעפצקרשת';
+// Final letters, their regular forms and their mispar gadol values
+const FINAL_LETTERS: Record<string, [string, number]> = {
+  'ך': ['כ', 500], 'ם': ['מ', 600], 'ן': ['נ', 700], 'ף': ['פ', 800], 'ץ': ['צ', 900],
+};
+
+/**
+ * Standard value of the letter at a 0-based alphabet index.
+ */
+function letterValue(index: number): number {
+  return (index % 9 + 1) * 10 ** Math.floor(index / 9);
+}
+
+/**
+ * Compute every gematria value of a word or phrase. Vowels, accents and
+ * anything other than Hebrew letters count as zero.
+ */
+export function computeGematria(text: string): Gematria {
+  const values: Gematria = { standard: 0, ordinal: 0, reduced: 0, finalForms: 0 };
+  for (const char of text) {
+    const final = FINAL_LETTERS[char];
+    const index = LETTERS.indexOf(final?.[0] ?? char);
+    if (index < 0) continue;
+
+    const value = letterValue(index);
+    values.standard += value;
+    values.ordinal += index + 1;
+    values.reduced += index % 9 + 1;
+    values.finalForms += final?.[1] ?? value;
+  }
+  return values;
+}
+
+/**
+ * Total the gematria of the given words.
+ */
+export function sumGematria(words: WordEntry[]): Gematria {
+  const total: Gematria = { standard: 0, ordinal: 0, reduced: 0, finalForms: 0 };
+  for (const word of words) {
+    const values = word.gematria ?? computeGematria(word.text);
+    for (const method of GEMATRIA_METHODS) {
+      total[method] += values[method];
+    }
+  }
+  return total;
+}
+
+/**
+ * Total the gematria of a verse. Qere words are left out, so the total
+ * counts the written text once.
+ */
+export function verseGematria(words: WordEntry[]): Gematria {
+  return sumGematria(words.filter(word => word.variant !== 'qere'));
+}
+
+/**
+ * Fill in word and verse gematria for data imported without it.
+ */
+export function withGematria<T extends Pick<OhbVerseData, 'words' | 'gematria'>>(verse: T): T {
+  for (const word of verse.words as WordEntry[]) {
+    word.gematria ??= computeGematria(word.text);
+  }
+  verse.gematria ??= verseGematria(verse.words);
+  return verse;
+}
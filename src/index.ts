@@ -6,7 +6,28 @@
  */
 
 import { registerSource } from '@metaxia/scriptures-core';
-import { sourceInfo, loadVerse, loadChapter, loadCache, listBooks } from './source.js';
+import {
+  sourceInfo,
+  loadVerse,
+  loadChapter,
+  loadCache,
+  listBooks,
+  loadParagraphs,
+  loadBook,
+  loadRange,
+  loadPassage,
+  findOccurrences,
+  searchMorphology,
+  searchText,
+  preload,
+  clearCache,
+  configureCache,
+  useBackend,
+  createSource,
+  listQereKetiv,
+  loadNotes,
+  findByGematria,
+} from './source.js';
 
 // Auto-register on import
 registerSource({
@@ -14,10 +35,101 @@ registerSource({
   metadata: sourceInfo.metadata,
   loadVerse,
   loadChapter,
+  loadBook,
+  loadRange,
   loadCache,
   listBooks,
 });
 
 // Export source info for direct access
-export { sourceInfo, loadVerse, loadChapter, loadCache, listBooks };
+export {
+  sourceInfo,
+  loadVerse,
+  loadChapter,
+  loadCache,
+  listBooks,
+  loadParagraphs,
+  loadBook,
+  loadRange,
+  loadPassage,
+  findOccurrences,
+  searchMorphology,
+  searchText,
+  preload,
+  clearCache,
+  configureCache,
+  useBackend,
+  createSource,
+  listQereKetiv,
+  loadNotes,
+  findByGematria,
+};
 export { metadata } from './source.js';
+export type { OhbSource } from './source.js';
+export { register } from './registration.js';
+export { segmentWord } from './segments.js';
+export { decodeMorphology } from './morphology.js';
+export { joinWords, normalizeHebrew, removeCantillation, extractConsonants } from './text.js';
+export type { Normalization } from './text.js';
+export { parseTextQuery } from './fulltext.js';
+export type { TextQuery } from './fulltext.js';
+export { mapReference } from './versification.js';
+export { resolveBook, UnknownBookError } from './books.js';
+export { parseReference } from './references.js';
+export { matchesPattern, matchSequence } from './patterns.js';
+export { applyReading, pairVariants } from './qere.js';
+export { computeGematria, sumGematria, verseGematria, GEMATRIA_METHODS } from './gematria.js';
+export type { Gematria, GematriaMethod } from './gematria.js';
+export type { Reading, VariantGroup } from './qere.js';
+export type { WordPattern, MorphemePattern } from './patterns.js';
+export { createFetchBackend, createMemoryBackend, isNotFound, joinLocation } from './backends.js';
+export type { LoaderBackend } from './backends.js';
+export { LruCache } from './lru.js';
+export type { CacheLimits } from './lru.js';
+export { PackedBookReader, packBook } from './packed.js';
+export type { PackedHeader } from './packed.js';
+export { CACHE_NAMES } from './caches.js';
+export type { CacheName, CacheData, OccurrenceRef } from './caches.js';
+export type { Passage, PassagePoint } from './references.js';
+export type { Versification, Reference } from './versification.js';
+export type {
+  Morphology,
+  HebrewMorphology,
+  AramaicMorphology,
+  MorphemeParse,
+  Language,
+  PartOfSpeech,
+  HebrewStem,
+  AramaicStem,
+  VerbAspect,
+  Person,
+  Gender,
+  GrammaticalNumber,
+  State,
+} from './morphology.js';
+export type {
+  MorphemeSegment,
+  WordEntry,
+  OhbVerseData,
+  LoadOptions,
+  Punctuation,
+  ParagraphMarker,
+  Paragraph,
+  VerseRef,
+  LocatedVerse,
+  Occurrence,
+  OccurrenceQuery,
+  MorphologySearchOptions,
+  MorphologyMatch,
+  SearchScope,
+  TextSearchOptions,
+  TextSearchHit,
+  CacheOptions,
+  SourceOptions,
+  QereKetivPair,
+  VariantReading,
+  TextualNote,
+  LocatedNote,
+  GematriaSearchOptions,
+  GematriaMatch,
+} from './types.js';
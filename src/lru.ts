@@ -0,0 +1,94 @@
+/**
+ * Least-recently-used cache bounded by entry count and approximate size.
+ */
+
+/**
+ * Limits for an `LruCache`. A limit of 0 disables caching.
+ */
+export interface CacheLimits {
+  /** Maximum number of entries */
+  maxEntries?: number;
+  /** Maximum total size in bytes, as measured by the cache's `sizeOf` */
+  maxBytes?: number;
+}
+
+export class LruCache<K, V> {
+  private readonly entries = new Map<K, { value: V; size: number }>();
+  private totalBytes = 0;
+  private maxEntries: number;
+  private maxBytes: number;
+
+  constructor(limits: Required<CacheLimits>, private readonly sizeOf: (value: V) => number) {
+    this.maxEntries = limits.maxEntries;
+    this.maxBytes = limits.maxBytes;
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  get bytes(): number {
+    return this.totalBytes;
+  }
+
+  get limits(): Required<CacheLimits> {
+    return { maxEntries: this.maxEntries, maxBytes: this.maxBytes };
+  }
+
+  /**
+   * Get a value and mark it as most recently used.
+   */
+  get(key: K): V | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  has(key: K): boolean {
+    return this.entries.has(key);
+  }
+
+  /**
+   * Store a value, evicting the least recently used entries to stay within
+   * the limits. Values larger than `maxBytes` are not stored.
+   */
+  set(key: K, value: V): void {
+    this.delete(key);
+    const size = this.sizeOf(value);
+    if (this.maxEntries <= 0 || size > this.maxBytes) return;
+
+    this.entries.set(key, { value, size });
+    this.totalBytes += size;
+    this.evict();
+  }
+
+  delete(key: K): void {
+    const entry = this.entries.get(key);
+    if (!entry) return;
+    this.entries.delete(key);
+    this.totalBytes -= entry.size;
+  }
+
+  clear(): void {
+    this.entries.clear();
+    this.totalBytes = 0;
+  }
+
+  /**
+   * Change the limits, evicting entries that no longer fit.
+   */
+  configure(limits: CacheLimits): void {
+    this.maxEntries = limits.maxEntries ?? this.maxEntries;
+    this.maxBytes = limits.maxBytes ?? this.maxBytes;
+    this.evict();
+  }
+
+  private evict(): void {
+    for (const [key] of this.entries) {
+      if (this.entries.size <= this.maxEntries && this.totalBytes <= this.maxBytes) break;
+      this.delete(key);
+    }
+  }
+}
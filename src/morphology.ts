@@ -0,0 +1,237 @@
+/**
+ * Decoder for OSHB morphology codes.
+ *
+ * Codes start with a language letter (H = Hebrew, A = Aramaic) followed by
+ * one or more morphemes separated by "/", e.g. `HC/Vqw3ms` or `ANcmsd/Td`.
+ * See https://hb.openscriptures.org/parsing/HebrewMorphologyCodes.html
+ */
+
+export type Language = 'Hebrew' | 'Aramaic';
+
+export type PartOfSpeech =
+  | 'adjective' | 'conjunction' | 'adverb' | 'noun' | 'pronoun'
+  | 'preposition' | 'suffix' | 'particle' | 'verb';
+
+export type HebrewStem =
+  | 'qal' | 'niphal' | 'piel' | 'pual' | 'hiphil' | 'hophal' | 'hithpael'
+  | 'polel' | 'polal' | 'hithpolel' | 'poel' | 'poal' | 'palel' | 'pulal'
+  | 'qalPassive' | 'pilpel' | 'polpal' | 'hithpalpel' | 'nithpael' | 'pealal'
+  | 'pilel' | 'hothpaal' | 'tiphil' | 'hishtaphel' | 'nithpalel' | 'nithpoel'
+  | 'hithpoel';
+
+export type AramaicStem =
+  | 'peal' | 'peil' | 'hithpeel' | 'pael' | 'ithpaal' | 'hithpaal' | 'aphel'
+  | 'haphel' | 'saphel' | 'shaphel' | 'hophal' | 'ithpeel' | 'hishtaphel'
+  | 'ishtaphel' | 'hithaphel' | 'polel' | 'ithpoel' | 'hithpolel'
+  | 'hithpalpel' | 'hephal' | 'tiphel' | 'poel' | 'palpel' | 'ithpalpel'
+  | 'ithpolel' | 'ittaphal';
+
+export type VerbAspect =
+  | 'perfect' | 'sequentialPerfect' | 'imperfect' | 'sequentialImperfect'
+  | 'cohortative' | 'jussive' | 'imperative' | 'participleActive'
+  | 'participlePassive' | 'infinitiveAbsolute' | 'infinitiveConstruct';
+
+export type Person = 1 | 2 | 3;
+export type Gender = 'both' | 'common' | 'feminine' | 'masculine';
+export type GrammaticalNumber = 'dual' | 'plural' | 'singular';
+export type State = 'absolute' | 'construct' | 'determined';
+
+/**
+ * Decoded features of a single morpheme.
+ */
+export interface MorphemeParse<S extends string = HebrewStem | AramaicStem> {
+  /** Morpheme code without the language letter (e.g. "Vqp3ms") */
+  code: string;
+  role: 'prefix' | 'stem' | 'suffix';
+  partOfSpeech: PartOfSpeech;
+  /** Sub-type such as "common", "properName", "definiteArticle" */
+  type?: string;
+  stem?: S;
+  aspect?: VerbAspect;
+  person?: Person;
+  gender?: Gender;
+  number?: GrammaticalNumber;
+  state?: State;
+}
+
+interface MorphologyOf<L extends Language, S extends string>
+  extends Omit<MorphemeParse<S>, 'code' | 'role'> {
+  /** Full morph code (e.g. "HC/Vqw3ms") */
+  code: string;
+  language: L;
+  prefixes: MorphemeParse<S>[];
+  suffixes: MorphemeParse<S>[];
+  /** All morphemes in source order */
+  segments: MorphemeParse<S>[];
+}
+
+export type HebrewMorphology = MorphologyOf<'Hebrew', HebrewStem>;
+export type AramaicMorphology = MorphologyOf<'Aramaic', AramaicStem>;
+
+/**
+ * Decoded morph code; the top-level features are those of the stem morpheme.
+ */
+export type Morphology = HebrewMorphology | AramaicMorphology;
+
+const PARTS_OF_SPEECH: Record<string, PartOfSpeech> = {
+  A: 'adjective', C: 'conjunction', D: 'adverb', N: 'noun', P: 'pronoun',
+  R: 'preposition', S: 'suffix', T: 'particle', V: 'verb',
+};
+
+const HEBREW_STEMS: Record<string, HebrewStem> = {
+  q: 'qal', N: 'niphal', p: 'piel', P: 'pual', h: 'hiphil', H: 'hophal',
+  t: 'hithpael', o: 'polel', O: 'polal', r: 'hithpolel', m: 'poel', M: 'poal',
+  k: 'palel', K: 'pulal', Q: 'qalPassive', l: 'pilpel', L: 'polpal',
+  f: 'hithpalpel', D: 'nithpael', j: 'pealal', i: 'pilel', u: 'hothpaal',
+  c: 'tiphil', v: 'hishtaphel', w: 'nithpalel', y: 'nithpoel', z: 'hithpoel',
+};
+
+const ARAMAIC_STEMS: Record<string, AramaicStem> = {
+  q: 'peal', Q: 'peil', u: 'hithpeel', p: 'pael', P: 'ithpaal', M: 'hithpaal',
+  a: 'aphel', h: 'haphel', s: 'saphel', e: 'shaphel', H: 'hophal', i: 'ithpeel',
+  t: 'hishtaphel', v: 'ishtaphel', w: 'hithaphel', o: 'polel', z: 'ithpoel',
+  r: 'hithpolel', f: 'hithpalpel', b: 'hephal', c: 'tiphel', m: 'poel',
+  l: 'palpel', L: 'ithpalpel', O: 'ithpolel', G: 'ittaphal',
+};
+
+const HEBREW_ASPECTS: Record<string, VerbAspect> = {
+  p: 'perfect', q: 'sequentialPerfect', i: 'imperfect', w: 'sequentialImperfect',
+  h: 'cohortative', j: 'jussive', v: 'imperative', r: 'participleActive',
+  s: 'participlePassive', a: 'infinitiveAbsolute', c: 'infinitiveConstruct',
+};
+
+const ARAMAIC_ASPECTS: Record<string, VerbAspect> = {
+  p: 'perfect', i: 'imperfect', j: 'jussive', v: 'imperative',
+  r: 'participleActive', s: 'participlePassive', a: 'infinitiveAbsolute',
+  c: 'infinitiveConstruct',
+};
+
+const TYPES: Record<string, Record<string, string>> = {
+  A: { a: 'adjective', c: 'cardinalNumber', g: 'gentilic', o: 'ordinalNumber' },
+  N: { c: 'common', g: 'gentilic', p: 'properName' },
+  P: { d: 'demonstrative', f: 'indefinite', i: 'interrogative', p: 'personal', r: 'relative' },
+  R: { d: 'definiteArticle' },
+  S: { d: 'directionalHe', h: 'paragogicHe', n: 'paragogicNun', p: 'pronominal' },
+  T: {
+    a: 'affirmation', d: 'definiteArticle', e: 'exhortation', i: 'interrogative',
+    j: 'interjection', m: 'demonstrative', n: 'negative', o: 'directObjectMarker',
+    r: 'relative',
+  },
+};
+
+const PERSONS: Record<string, Person> = { 1: 1, 2: 2, 3: 3 };
+const GENDERS: Record<string, Gender> = { b: 'both', c: 'common', f: 'feminine', m: 'masculine' };
+const NUMBERS: Record<string, GrammaticalNumber> = { d: 'dual', p: 'plural', s: 'singular' };
+const STATES: Record<string, State> = { a: 'absolute', c: 'construct', d: 'determined' };
+
+type Field = 'type' | 'stem' | 'aspect' | 'person' | 'gender' | 'number' | 'state';
+
+/**
+ * Fields that follow the part-of-speech letter, in code order.
+ */
+function fieldsFor(pos: string, code: string, aspects: Record<string, VerbAspect>): Field[] {
+  switch (pos) {
+    case 'A':
+      return ['type', 'gender', 'number', 'state'];
+    case 'N':
+      return code[1] === 'p' ? ['type'] : ['type', 'gender', 'number', 'state'];
+    case 'P':
+      return ['type', 'person', 'gender', 'number'];
+    case 'S':
+      return code[1] === 'p' ? ['type', 'person', 'gender', 'number'] : ['type'];
+    case 'R':
+    case 'T':
+      return ['type'];
+    case 'V': {
+      const aspect = aspects[code[2]];
+      if (aspect === 'participleActive' || aspect === 'participlePassive') {
+        return ['stem', 'aspect', 'gender', 'number', 'state'];
+      }
+      if (aspect === 'infinitiveAbsolute' || aspect === 'infinitiveConstruct') {
+        return ['stem', 'aspect'];
+      }
+      return ['stem', 'aspect', 'person', 'gender', 'number'];
+    }
+    default:
+      return [];
+  }
+}
+
+function decodeMorpheme(
+  code: string,
+  role: MorphemeParse['role'],
+  language: Language,
+  fullCode: string
+): MorphemeParse {
+  const invalid = () => new Error(`Invalid morphology code '${fullCode}'`);
+  const pos = code[0];
+  const partOfSpeech = PARTS_OF_SPEECH[pos];
+  if (!partOfSpeech) throw invalid();
+
+  const stems: Record<string, HebrewStem | AramaicStem> = language === 'Hebrew' ? HEBREW_STEMS : ARAMAIC_STEMS;
+  const aspects = language === 'Hebrew' ? HEBREW_ASPECTS : ARAMAIC_ASPECTS;
+  const tables: { [F in Field]: Record<string, NonNullable<MorphemeParse[F]>> } = {
+    type: TYPES[pos] ?? {},
+    stem: stems,
+    aspect: aspects,
+    person: PERSONS,
+    gender: GENDERS,
+    number: NUMBERS,
+    state: STATES,
+  };
+
+  const fields = fieldsFor(pos, code, aspects);
+  if (code.length - 1 > fields.length) throw invalid();
+
+  const parse: MorphemeParse = { code, role, partOfSpeech };
+  const setField = <F extends Field>(field: F, letter: string) => {
+    const value: MorphemeParse[F] | undefined = tables[field][letter];
+    if (value === undefined) throw invalid();
+    parse[field] = value;
+  };
+  fields.forEach((field, i) => {
+    const letter = code[i + 1];
+    // Codes may stop early, and "x" marks a feature that does not apply
+    if (letter !== undefined && letter !== 'x') setField(field, letter);
+  });
+  return parse;
+}
+
+/**
+ * Decode a full OSHB morph code into typed features.
+ *
+ * @throws Error if the code is not a valid OSHB morphology code
+ */
+export function decodeMorphology(code: string): Morphology {
+  const language: Language | undefined =
+    code[0] === 'H' ? 'Hebrew' : code[0] === 'A' ? 'Aramaic' : undefined;
+  // A few MorphHB codes end in a stray "/" (e.g. "HVtv2fs/" at Jer 6:26)
+  const parts = code.slice(1).replace(/\/$/, '').split('/');
+  if (!language || parts.some(part => !part)) {
+    throw new Error(`Invalid morphology code '${code}'`);
+  }
+
+  // Suffixes follow the stem; in Aramaic a trailing Td is the emphatic ending
+  let stemIndex = parts.length - 1;
+  while (
+    stemIndex > 0 &&
+    (parts[stemIndex][0] === 'S' || (language === 'Aramaic' && parts[stemIndex] === 'Td'))
+  ) {
+    stemIndex--;
+  }
+
+  const segments = parts.map((part, i) => {
+    const role = i < stemIndex ? 'prefix' : i === stemIndex ? 'stem' : 'suffix';
+    return decodeMorpheme(part, role, language, code);
+  });
+  const { code: _stemCode, role: _role, ...features } = segments[stemIndex];
+
+  return {
+    code,
+    language,
+    ...features,
+    prefixes: segments.slice(0, stemIndex),
+    suffixes: segments.slice(stemIndex + 1),
+    segments,
+  } as Morphology;
+}
@@ -0,0 +1,39 @@
+/**
+ * Node.js file system backend.
+ *
+ * Kept out of `source.ts` so browser and edge bundles never load `fs`; the
+ * source imports it on demand when no other backend is selected.
+ */
+
+import { fileURLToPath } from 'url';
+import { dirname, resolve } from 'path';
+import { open, readFile, readdir } from 'fs/promises';
+import type { LoaderBackend } from './backends.js';
+
+// The package root, which holds data/ and cache/
+const PACKAGE_ROOT = resolve(dirname(fileURLToPath(import.meta.url)), '..');
+
+/**
+ * Read data from the local file system. Relative locations resolve against
+ * `root` (default: the package directory); absolute paths are used as given.
+ */
+export function createNodeBackend(root: string = PACKAGE_ROOT): LoaderBackend {
+  return {
+    async readText(location) {
+      return readFile(resolve(root, location), 'utf-8');
+    },
+    async readBytes(location, offset, length) {
+      const file = await open(resolve(root, location), 'r');
+      try {
+        const buffer = new Uint8Array(length);
+        const { bytesRead } = await file.read(buffer, 0, length, offset);
+        return buffer.subarray(0, bytesRead);
+      } finally {
+        await file.close();
+      }
+    },
+    async list(location) {
+      return readdir(resolve(root, location));
+    },
+  };
+}
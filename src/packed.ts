@@ -0,0 +1,238 @@
+/**
+ * Packed per-book data format with an offset index.
+ *
+ * A packed book is a JSON-lines file. The first line is a header holding the
+ * book's lemma and morph string tables and the byte offset and length of each
+ * verse line, relative to the end of the header line. Each following line is
+ * one verse, `[words, extra?]`, where every word is
+ * `[text, lemmaIndex, morphIndex, punctuationIndex?, extra?]` (-1 for null).
+ *
+ * Fields the loader can derive — word positions, Strong's numbers, `metadata`,
+ * the `source` copy of lemma and morph, `segments`, gematria and the verse
+ * text — are left out; `extra` holds any field whose value differs from the derived one.
+ */
+
+import { lemmaStrongs, segmentWord } from './segments.js';
+import { joinWords } from './text.js';
+import { computeGematria, verseGematria } from './gematria.js';
+import type { LoaderBackend } from './backends.js';
+import type { OhbVerseData, Punctuation, WordEntry } from './types.js';
+
+export const PACKED_FORMAT = 'ohb-packed';
+export const PACKED_VERSION = 1;
+
+/**
+ * First line of a packed book.
+ */
+export interface PackedHeader {
+  format: typeof PACKED_FORMAT;
+  version: number;
+  /** OSIS book ID */
+  book: string;
+  lemmas: string[];
+  morphs: string[];
+  /** `[chapter, verse, offset, length]` for each verse, in order */
+  index: Array<[number, number, number, number]>;
+}
+
+type PackedWord = [string, number, number, number?, Record<string, unknown>?];
+type PackedVerse = [PackedWord[], Record<string, unknown>?];
+
+const PUNCTUATION: Array<Punctuation | undefined> = [undefined, 'space', 'maqqef', 'sofPasuq', 'paseq'];
+
+const HEADER_CHUNK = 64 * 1024;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+/**
+ * Rebuild the fields a packed word leaves out from its lemma and morph.
+ */
+function expandWord(position: number, text: string, lemma: string | null, morph: string | null): WordEntry {
+  const word: WordEntry = { position, text, lemma, morph };
+  const strongs = lemmaStrongs(lemma);
+  if (strongs.length > 0) word.strongs = strongs;
+  word.metadata = lemma && !/\d/.test(lemma) ? { isPrefixOnly: true } : {};
+  word.source = {};
+  if (lemma) word.source.lemma = lemma;
+  if (morph) word.source.morph = morph;
+  return word;
+}
+
+/**
+ * Fields of `actual` that differ from `derived`, or undefined if none do.
+ */
+function differences(actual: object, derived: object, skip: string[]): Record<string, unknown> | undefined {
+  const extra: Record<string, unknown> = {};
+  const a = actual as Record<string, unknown>;
+  const d = derived as Record<string, unknown>;
+  for (const key of new Set([...Object.keys(a), ...Object.keys(d)])) {
+    if (skip.includes(key) || JSON.stringify(a[key]) === JSON.stringify(d[key])) continue;
+    extra[key] = a[key];
+  }
+  return Object.keys(extra).length > 0 ? extra : undefined;
+}
+
+function unpackVerse(line: string, header: PackedHeader): OhbVerseData {
+  const [packedWords, extra] = JSON.parse(line) as PackedVerse;
+  const words = packedWords.map(([text, lemma, morph, punctuation = 0, wordExtra], i) => {
+    const word = expandWord(
+      i + 1,
+      text,
+      lemma < 0 ? null : header.lemmas[lemma],
+      morph < 0 ? null : header.morphs[morph]
+    );
+    if (PUNCTUATION[punctuation]) word.punctuation = PUNCTUATION[punctuation];
+    if (word.source && wordExtra?.variant === 'ketiv') word.source.type = 'x-ketiv';
+    return Object.assign(word, wordExtra);
+  });
+  return { text: joinWords(words), words, ...extra } as OhbVerseData;
+}
+
+/**
+ * Pack the verses of one book, in canonical order.
+ */
+export function packBook(
+  book: string,
+  verses: Array<{ chapter: number; verse: number; data: OhbVerseData }>
+): string {
+  const lemmas = new Map<string, number>();
+  const morphs = new Map<string, number>();
+  const intern = (table: Map<string, number>, value: string | null | undefined) => {
+    if (value === null || value === undefined) return -1;
+    if (!table.has(value)) table.set(value, table.size);
+    return table.get(value)!;
+  };
+
+  const lines: string[] = [];
+  const index: PackedHeader['index'] = [];
+  let offset = 0;
+  for (const { chapter, verse, data } of verses) {
+    const words: PackedWord[] = data.words.map((word: WordEntry, i: number) => {
+      const derived = expandWord(i + 1, word.text, word.lemma ?? null, word.morph ?? null);
+      if (word.variant === 'ketiv') derived.source!.type = 'x-ketiv';
+      if (word.segments && JSON.stringify(word.segments) === JSON.stringify(segmentWord(word.lemma, word.morph))) {
+        derived.segments = word.segments;
+      }
+      if (word.gematria && JSON.stringify(word.gematria) === JSON.stringify(computeGematria(word.text))) {
+        derived.gematria = word.gematria;
+      }
+      const packed: PackedWord = [word.text, intern(lemmas, word.lemma), intern(morphs, word.morph)];
+      const punctuation = PUNCTUATION.indexOf(word.punctuation);
+      const extra = differences(word, derived, ['text', 'lemma', 'morph', 'punctuation']);
+      if (punctuation > 0 || extra) packed.push(punctuation);
+      if (extra) packed.push(extra);
+      return packed;
+    });
+
+    const { text, words: _words, gematria, ...rest } = data;
+    const extra: Record<string, unknown> = { ...rest };
+    if (text !== joinWords(data.words)) extra.text = text;
+    if (gematria && JSON.stringify(gematria) !== JSON.stringify(verseGematria(data.words))) extra.gematria = gematria;
+    const packed: PackedVerse = Object.keys(extra).length > 0 ? [words, extra] : [words];
+
+    const line = JSON.stringify(packed);
+    const length = encoder.encode(line).length;
+    index.push([chapter, verse, offset, length]);
+    lines.push(line);
+    offset += length + 1;
+  }
+
+  const header: PackedHeader = {
+    format: PACKED_FORMAT,
+    version: PACKED_VERSION,
+    book,
+    lemmas: [...lemmas.keys()],
+    morphs: [...morphs.keys()],
+    index,
+  };
+  return [JSON.stringify(header), ...lines].join('\n') + '\n';
+}
+
+/**
+ * Random-access reader for one packed book file.
+ */
+export class PackedBookReader {
+  private readonly offsets = new Map<number, Map<number, [number, number]>>();
+
+  private constructor(
+    private readonly backend: LoaderBackend,
+    private readonly location: string,
+    readonly header: PackedHeader,
+    private readonly bodyStart: number
+  ) {
+    for (const [chapter, verse, offset, length] of header.index) {
+      if (!this.offsets.has(chapter)) this.offsets.set(chapter, new Map());
+      this.offsets.get(chapter)!.set(verse, [offset, length]);
+    }
+  }
+
+  /**
+   * Read a packed book's header.
+   *
+   * @throws Error if the file is missing or not a packed book
+   */
+  static async open(backend: LoaderBackend, location: string): Promise<PackedBookReader> {
+    const chunks: Uint8Array[] = [];
+    let position = 0;
+    let newline = -1;
+    while (newline < 0) {
+      const chunk = await backend.readBytes(location, position, HEADER_CHUNK);
+      if (chunk.length === 0) break;
+      const found = chunk.indexOf(0x0a);
+      chunks.push(found >= 0 ? chunk.subarray(0, found) : chunk);
+      if (found >= 0) newline = position + found;
+      position += chunk.length;
+    }
+
+    const bytes = new Uint8Array(chunks.reduce((total, chunk) => total + chunk.length, 0));
+    let filled = 0;
+    for (const chunk of chunks) {
+      bytes.set(chunk, filled);
+      filled += chunk.length;
+    }
+
+    const header = JSON.parse(decoder.decode(bytes));
+    if (header.format !== PACKED_FORMAT || header.version !== PACKED_VERSION) {
+      throw new Error(`Unsupported packed data in ${location}`);
+    }
+    return new PackedBookReader(backend, location, header, newline + 1);
+  }
+
+  chapters(): number[] {
+    return [...this.offsets.keys()];
+  }
+
+  verses(chapter: number): number[] {
+    return [...(this.offsets.get(chapter)?.keys() ?? [])];
+  }
+
+  /**
+   * Read one verse, or null if the book has no such verse.
+   */
+  async readVerse(chapter: number, verse: number): Promise<OhbVerseData | null> {
+    const entry = this.offsets.get(chapter)?.get(verse);
+    if (!entry) return null;
+    const [line] = await this.readLines(entry[0], entry[1]);
+    return unpackVerse(line, this.header);
+  }
+
+  /**
+   * Read every verse of a chapter with one contiguous read.
+   */
+  async readChapter(chapter: number): Promise<Array<{ verse: number; data: OhbVerseData }>> {
+    const verses = this.offsets.get(chapter);
+    if (!verses || verses.size === 0) return [];
+
+    const entries = [...verses.entries()];
+    const start = entries[0][1][0];
+    const [lastOffset, lastLength] = entries[entries.length - 1][1];
+    const lines = await this.readLines(start, lastOffset + lastLength - start);
+    return entries.map(([verse], i) => ({ verse, data: unpackVerse(lines[i], this.header) }));
+  }
+
+  private async readLines(offset: number, length: number): Promise<string[]> {
+    const bytes = await this.backend.readBytes(this.location, this.bodyStart + offset, length);
+    return decoder.decode(bytes).split('\n');
+  }
+}
@@ -0,0 +1,30 @@
+/**
+ * Grouping of verses into Masoretic paragraphs (petuchot and setumot).
+ */
+
+import type { Paragraph, ParagraphMarker, VerseRef } from './types.js';
+
+/**
+ * Group verses, in book order, into paragraphs that end at each marked verse.
+ */
+export function groupParagraphs(
+  verses: Array<VerseRef & { paragraph?: ParagraphMarker }>
+): Paragraph[] {
+  const paragraphs: Paragraph[] = [];
+  let start: VerseRef | undefined;
+
+  for (const { chapter, verse, paragraph } of verses) {
+    start ??= { chapter, verse };
+    if (paragraph) {
+      paragraphs.push({ marker: paragraph, start, end: { chapter, verse } });
+      start = undefined;
+    }
+  }
+
+  const last = verses[verses.length - 1];
+  if (start && last) {
+    paragraphs.push({ start, end: { chapter: last.chapter, verse: last.verse } });
+  }
+
+  return paragraphs;
+}
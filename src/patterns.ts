@@ -0,0 +1,96 @@
+/**
+ * Morphology patterns for searching words by their decoded `morph` codes.
+ */
+
+import { decodeMorphology } from './morphology.js';
+import type { Language, Morphology, MorphemeParse } from './morphology.js';
+import { qereWords } from './qere.js';
+import type { WordEntry } from './types.js';
+
+/**
+ * Features a morpheme must have; omitted features match anything.
+ */
+export type MorphemePattern = Partial<Omit<MorphemeParse, 'code'>>;
+
+/**
+ * Features a word must have. Top-level features apply to the stem morpheme,
+ * as in `Morphology`.
+ */
+export interface WordPattern extends Partial<Omit<MorphemeParse, 'code' | 'role'>> {
+  language?: Language;
+  /** Full morph code, where "?" matches one character and "*" any run ("HVqp3*") */
+  code?: string;
+  /** Morphemes the word must also contain, e.g. `{ role: 'prefix', type: 'definiteArticle' }` */
+  has?: MorphemePattern[];
+}
+
+const FEATURES = ['role', 'partOfSpeech', 'type', 'stem', 'aspect', 'person', 'gender', 'number', 'state'] as const;
+
+// Decoded codes, or null for codes the decoder rejects
+const decoded = new Map<string, Morphology | null>();
+const globs = new Map<string, RegExp>();
+
+function decode(code: string): Morphology | null {
+  let morphology = decoded.get(code);
+  if (morphology === undefined) {
+    try {
+      morphology = decodeMorphology(code);
+    } catch (error) {
+      morphology = null;
+    }
+    decoded.set(code, morphology);
+  }
+  return morphology;
+}
+
+function globToRegExp(glob: string): RegExp {
+  let re = globs.get(glob);
+  if (!re) {
+    const source = glob
+      .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+      .replace(/\?/g, '.')
+      .replace(/\*/g, '.*');
+    re = new RegExp(`^${source}$`);
+    globs.set(glob, re);
+  }
+  return re;
+}
+
+function matchesFeatures(target: Partial<MorphemeParse>, pattern: MorphemePattern): boolean {
+  return FEATURES.every(feature => pattern[feature] === undefined || pattern[feature] === target[feature]);
+}
+
+/**
+ * Check whether a word matches a pattern. Words without a morph code, or
+ * with one the decoder rejects, never match.
+ */
+export function matchesPattern(word: WordEntry, pattern: WordPattern): boolean {
+  if (!word.morph) return false;
+  if (pattern.code !== undefined && !globToRegExp(pattern.code).test(word.morph)) return false;
+
+  const morphology = decode(word.morph);
+  if (!morphology) return false;
+  if (pattern.language !== undefined && pattern.language !== morphology.language) return false;
+  if (!matchesFeatures({ ...morphology, role: 'stem' }, pattern)) return false;
+
+  const segments: MorphemeParse[] = morphology.segments;
+  return (pattern.has ?? []).every(wanted => segments.some(segment => matchesFeatures(segment, wanted)));
+}
+
+/**
+ * Find runs of adjacent words matching `patterns` in order, returning the
+ * positions of each run. Qere words are read in place of their ketiv, so
+ * sequences follow the qere reading.
+ */
+export function matchSequence(words: WordEntry[], patterns: WordPattern[]): number[][] {
+  const read = qereWords(words);
+  const runs: number[][] = [];
+
+  for (let start = 0; start + patterns.length <= read.length; start++) {
+    const run = read.slice(start, start + patterns.length);
+    if (run.every((word, i) => matchesPattern(word, patterns[i]))) {
+      runs.push(run.map(word => word.position));
+    }
+  }
+  return runs;
+}
@@ -0,0 +1,142 @@
+/**
+ * Qere/Ketiv readings: pairing the written (ketiv) and read (qere) words of a
+ * verse, and filtering a verse down to one reading.
+ *
+ * The bundled data keeps every qere word after the verse's other words, while
+ * the importer now keeps them in source order, right after their ketiv.
+ * Either way qere words are matched back to the ketiv runs they replace by
+ * order and by shared Strong's numbers.
+ */
+
+import { joinWords } from './text.js';
+import { sumGematria } from './gematria.js';
+import type { OhbVerseData, WordEntry } from './types.js';
+
+/**
+ * Which words of a Qere/Ketiv variant to keep: the qere read in the
+ * synagogue, the consonantal ketiv, or both as stored.
+ */
+export type Reading = 'qere' | 'ketiv' | 'both';
+
+/**
+ * A ketiv run and the qere words read in its place. Either side is empty for
+ * a word written but not read, or read but not written.
+ */
+export interface VariantGroup {
+  ketiv: WordEntry[];
+  qere: WordEntry[];
+}
+
+/**
+ * Split `items` into `parts` consecutive, possibly empty, chunks in every
+ * possible way.
+ */
+function* splits<T>(items: T[], parts: number): Generator<T[][]> {
+  if (parts === 1) {
+    yield [items];
+    return;
+  }
+  for (let size = 0; size <= items.length; size++) {
+    for (const rest of splits(items.slice(size), parts - 1)) {
+      yield [items.slice(0, size), ...rest];
+    }
+  }
+}
+
+function sharesStrongs(word: WordEntry, run: WordEntry[]): boolean {
+  return (word.strongs ?? []).some(number => run.some(other => other.strongs?.includes(number)));
+}
+
+/**
+ * Pair a verse's ketiv runs with its qere words, in verse order.
+ */
+export function pairVariants(words: WordEntry[]): VariantGroup[] {
+  const runs: WordEntry[][] = [];
+  const qere: WordEntry[] = [];
+  words.forEach((word, i) => {
+    if (word.variant === 'qere') {
+      qere.push(word);
+    } else if (word.variant === 'ketiv') {
+      if (words[i - 1]?.variant === 'ketiv') runs[runs.length - 1].push(word);
+      else runs.push([word]);
+    }
+  });
+
+  if (runs.length === 0) {
+    return qere.length > 0 ? [{ ketiv: [], qere }] : [];
+  }
+
+  // Prefer the split whose chunks share the most Strong's numbers with their
+  // ketiv runs, then the one whose chunk sizes best match the run sizes
+  let best: WordEntry[][] = [];
+  let bestScore = -Infinity;
+  for (const chunks of splits(qere, runs.length)) {
+    let score = 0;
+    chunks.forEach((chunk, i) => {
+      score += chunk.filter(word => sharesStrongs(word, runs[i])).length * 100;
+      score -= Math.abs(chunk.length - runs[i].length);
+    });
+    if (score > bestScore) {
+      best = chunks;
+      bestScore = score;
+    }
+  }
+  return runs.map((ketiv, i) => ({ ketiv, qere: best[i] }));
+}
+
+/**
+ * The words of a verse in the order they are read: each ketiv run replaced in
+ * place by its qere words, the last of which takes over the run's trailing
+ * punctuation. Words keep their stored positions.
+ */
+export function qereWords(words: WordEntry[]): WordEntry[] {
+  if (!words.some(word => word.variant)) return words;
+
+  const replacements = new Map<WordEntry, WordEntry[]>();
+  const placed = new Set<WordEntry>();
+  for (const { ketiv, qere } of pairVariants(words)) {
+    if (ketiv.length === 0) continue;
+    const punctuation = ketiv[ketiv.length - 1].punctuation;
+    replacements.set(
+      ketiv[0],
+      qere.map((word, i) => {
+        if (i < qere.length - 1) return word;
+        const { punctuation: _punctuation, ...rest } = word;
+        return punctuation ? { ...rest, punctuation } : rest;
+      })
+    );
+    qere.forEach(word => placed.add(word));
+  }
+
+  const read: WordEntry[] = [];
+  for (const word of words) {
+    if (word.variant === 'ketiv') {
+      read.push(...(replacements.get(word) ?? []));
+    } else if (!placed.has(word)) {
+      read.push(word);
+    }
+  }
+  return read;
+}
+
+/**
+ * Keep one reading of a verse's Qere/Ketiv variants and rebuild its text.
+ *
+ * For the qere, the words are those of `qereWords`. Words keep their stored
+ * positions, the verse's gematria is totalled over the words kept, and the
+ * verse is not modified.
+ */
+export function applyReading(data: OhbVerseData, reading: Reading): OhbVerseData {
+  if (reading === 'both' || !data.words.some((word: WordEntry) => word.variant)) {
+    return data;
+  }
+
+  const words: WordEntry[] =
+    reading === 'ketiv'
+      ? data.words.filter((word: WordEntry) => word.variant !== 'qere')
+      : qereWords(data.words);
+
+  const read: OhbVerseData = { ...data, text: joinWords(words), words };
+  if (data.gematria) read.gematria = sumGematria(words);
+  return read;
+}
@@ -0,0 +1,96 @@
+/**
+ * Parsing of passage reference strings such as "Gen 1:26-2:3", "Ps 23" and
+ * "Isa 40:1-11; 52:7".
+ */
+
+import { resolveBook } from './books.js';
+
+/**
+ * A chapter, optionally narrowed to one verse.
+ */
+export interface PassagePoint {
+  chapter: number;
+  /** Absent for whole-chapter bounds */
+  verse?: number;
+}
+
+/**
+ * A contiguous run of verses within one book.
+ */
+export interface Passage {
+  /** OSIS book ID */
+  book: string;
+  start: PassagePoint;
+  end: PassagePoint;
+}
+
+const POINT_RE = /^(\d+)(?:[:.](\d+))?$/;
+const SPEC_RE = /^(\d+(?:[:.]\d+)?)(?:\s*[-–—]\s*(\d+(?:[:.]\d+)?))?$/;
+const BOOK_AND_SPEC_RE = /^(.+?)\s*(\d+(?:[:.]\d+)?(?:\s*[-–—]\s*\d+(?:[:.]\d+)?)?)$/;
+
+function parsePoint(text: string): PassagePoint {
+  const [, chapter, verse] = text.match(POINT_RE)!;
+  return verse === undefined
+    ? { chapter: parseInt(chapter, 10) }
+    : { chapter: parseInt(chapter, 10), verse: parseInt(verse, 10) };
+}
+
+/**
+ * Parse a reference string into passages.
+ *
+ * Parts separated by ";" may omit the book to reuse the previous one, and
+ * parts separated by "," may give bare verses of the previous chapter
+ * ("Isa 40:1-11, 15").
+ *
+ * @throws Error if the reference cannot be parsed
+ * @throws UnknownBookError if a book name is not recognized
+ */
+export function parseReference(reference: string): Passage[] {
+  const invalid = () => new Error(`Invalid reference '${reference}'`);
+  const passages: Passage[] = [];
+  let book: string | undefined;
+  let chapter: number | undefined;
+  let verseContext = false;
+
+  for (const group of reference.split(';')) {
+    verseContext = false;
+    for (const rawPart of group.split(',')) {
+      const part = rawPart.trim();
+      if (!part) throw invalid();
+
+      let spec = part;
+      if (!SPEC_RE.test(part)) {
+        const match = part.match(BOOK_AND_SPEC_RE);
+        if (!match) throw invalid();
+        book = resolveBook(match[1]);
+        spec = match[2];
+        verseContext = false;
+      }
+      if (!book) throw invalid();
+
+      const [, first, second] = spec.match(SPEC_RE)!;
+      let start = parsePoint(first);
+      let end = second === undefined ? { ...start } : parsePoint(second);
+
+      // After a verse reference, bare numbers are verses of the same chapter
+      if (verseContext && chapter !== undefined) {
+        if (start.verse === undefined) start = { chapter, verse: start.chapter };
+        if (end.verse === undefined) end = { chapter: start.chapter, verse: end.chapter };
+      } else if (start.verse !== undefined && end.verse === undefined && second !== undefined) {
+        // "40:1-11" ends at verse 11 of the same chapter
+        end = { chapter: start.chapter, verse: end.chapter };
+      }
+
+      const startsAfterEnd =
+        start.chapter > end.chapter ||
+        (start.chapter === end.chapter && (start.verse ?? 0) > (end.verse ?? Infinity));
+      if (startsAfterEnd) throw invalid();
+
+      passages.push({ book, start, end });
+      chapter = end.chapter;
+      verseContext = end.verse !== undefined;
+    }
+  }
+
+  return passages;
+}
@@ -5,13 +5,23 @@
  */
 
 import { registerSource } from '@metaxia/scriptures-core';
-import { sourceInfo, loadVerse, loadChapter, loadCache, listBooks } from './source.js';
+import {
+  sourceInfo,
+  loadVerse,
+  loadChapter,
+  loadCache,
+  listBooks,
+  loadBook,
+  loadRange,
+} from './source.js';
 
 registerSource({
   edition: sourceInfo.edition,
   metadata: sourceInfo.metadata,
   loadVerse,
   loadChapter,
+  loadBook,
+  loadRange,
   loadCache,
   listBooks,
 });
@@ -0,0 +1,29 @@
+/**
+ * Registration of configured sources with @metaxia/scriptures.
+ */
+
+import { registerSource } from '@metaxia/scriptures-core';
+import { createSource } from './source.js';
+import type { OhbSource } from './source.js';
+import type { SourceOptions } from './types.js';
+
+/**
+ * Create a source and register it under its edition key.
+ *
+ * The package entry point already registers the default edition; call this to
+ * register others, e.g. a newer MorphHB release under its own key.
+ */
+export function register(options: SourceOptions = {}): OhbSource {
+  const source = createSource(options);
+  registerSource({
+    edition: source.edition,
+    metadata: source.metadata,
+    loadVerse: source.loadVerse,
+    loadChapter: source.loadChapter,
+    loadBook: source.loadBook,
+    loadRange: source.loadRange,
+    loadCache: source.loadCache,
+    listBooks: source.listBooks,
+  });
+  return source;
+}
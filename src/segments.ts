@@ -0,0 +1,90 @@
+/**
+ * Splitting of composite OSHB lemma and morph strings into morpheme segments.
+ *
+ * MorphHB joins the pieces of a word with "/": `lemma="c/b/929"` pairs with
+ * `morph="HC/Rd/Ncfsa"`. Suffixes appear only in the morph string
+ * (`HR/Sp2ms`), and Aramaic marks the emphatic state with a trailing `Td`.
+ */
+
+import type { MorphemeSegment, WordEntry } from './types.js';
+
+/**
+ * Check if a morph piece is a suffix that has no lemma of its own.
+ */
+function isSuffixCode(code: string, language: string): boolean {
+  return code.startsWith('S') || (language === 'A' && code === 'Td');
+}
+
+/**
+ * Strong's numbers a lemma implies ("c/1254 a" -> ["H1254"]). Numbers
+ * without an H or G prefix are Hebrew.
+ */
+export function lemmaStrongs(lemma: string | null | undefined): string[] {
+  if (!lemma) return [];
+  return [...lemma.matchAll(/([HGhg]?)(\d{1,5})/g)].map(
+    ([, prefix, digits]) => `${prefix.toUpperCase() || 'H'}${parseInt(digits, 10)}`
+  );
+}
+
+function makeSegment(
+  type: MorphemeSegment['type'],
+  lemma: string | null,
+  morph: string | null
+): MorphemeSegment {
+  const segment: MorphemeSegment = { type, lemma, morph };
+  const [strongs] = lemmaStrongs(lemma);
+  if (strongs) segment.strongs = strongs;
+  return segment;
+}
+
+/**
+ * Split a word's lemma and morph strings into prefix, stem and suffix segments.
+ *
+ * When the two strings disagree on the number of pieces, the stem is kept
+ * aligned: extra lemma prefixes get a null morph, and extra morph pieces
+ * after the stem become suffixes.
+ */
+export function segmentWord(lemma?: string | null, morph?: string | null): MorphemeSegment[] {
+  const lemmaParts = lemma ? lemma.split('/') : [];
+  const language = morph && /^[HA]/.test(morph) ? morph[0] : '';
+  const morphParts = morph ? morph.slice(language.length).split('/') : [];
+
+  let coreEnd = morphParts.length;
+  while (coreEnd > 1 && isSuffixCode(morphParts[coreEnd - 1], language)) {
+    coreEnd--;
+  }
+  const core = morphParts.slice(0, coreEnd);
+
+  const segments: MorphemeSegment[] = [];
+  if (lemmaParts.length >= core.length) {
+    const shift = lemmaParts.length - core.length;
+    lemmaParts.forEach((piece, i) => {
+      const type = i === lemmaParts.length - 1 ? 'stem' : 'prefix';
+      segments.push(makeSegment(type, piece, core[i - shift] ?? null));
+    });
+  } else {
+    const stem = lemmaParts.length > 0 ? lemmaParts.length - 1 : core.length - 1;
+    core.forEach((code, i) => {
+      const type = i < stem ? 'prefix' : i === stem ? 'stem' : 'suffix';
+      segments.push(makeSegment(type, lemmaParts[i] ?? null, code));
+    });
+  }
+
+  for (const code of morphParts.slice(coreEnd)) {
+    segments.push(makeSegment('suffix', null, code));
+  }
+
+  return segments;
+}
+
+/**
+ * Fill in `segments` for words imported before the field existed.
+ */
+export function withSegments<T extends { words?: WordEntry[] }>(verse: T): T {
+  for (const word of verse.words ?? []) {
+    if (!word.segments) {
+      word.segments = segmentWord(word.lemma, word.morph);
+    }
+  }
+  return verse;
+}
@@ -2,22 +2,72 @@
  * Source configuration and data loading for openscriptures-OHB.
  */
 
-import { fileURLToPath } from 'url';
-import { dirname, join } from 'path';
-import { readFile, readdir } from 'fs/promises';
-import type { EditionMetadata, VerseData } from '@metaxia/scriptures-core';
+import type { EditionMetadata } from '@metaxia/scriptures-core';
+import { isNotFound, joinLocation } from './backends.js';
+import { withSegments } from './segments.js';
+import { GEMATRIA_METHODS, withGematria } from './gematria.js';
+import { LruCache } from './lru.js';
+import { mapWithConcurrency } from './concurrency.js';
+import { PackedBookReader } from './packed.js';
+import { decodeMorphology } from './morphology.js';
+import { groupParagraphs } from './paragraphs.js';
+import { BOOK_TO_OSIS, resolveBook } from './books.js';
+import { hebrewChaptersFor, mapReference } from './versification.js';
+import { parseReference } from './references.js';
+import { isCacheName, parseOccurrenceRef } from './caches.js';
+import { matchSequence } from './patterns.js';
+import { matchTextQuery, parseTextQuery } from './fulltext.js';
+import { applyReading, pairVariants } from './qere.js';
+import type { LoaderBackend } from './backends.js';
+import type { WordPattern } from './patterns.js';
+import type { CacheData, CacheName, OccurrenceRef } from './caches.js';
+import type { Reference } from './versification.js';
+import type { Passage, PassagePoint } from './references.js';
+import type {
+  CacheOptions,
+  GematriaMatch,
+  GematriaSearchOptions,
+  LoadOptions,
+  LocatedNote,
+  LocatedVerse,
+  MorphologyMatch,
+  MorphologySearchOptions,
+  Occurrence,
+  OccurrenceQuery,
+  OhbVerseData,
+  Paragraph,
+  QereKetivPair,
+  SearchScope,
+  SourceOptions,
+  TextSearchHit,
+  TextSearchOptions,
+  TextualNote,
+  WordEntry,
+} from './types.js';
 
-// Resolve paths relative to this file
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = dirname(__filename);
-const DATA_PATH = join(__dirname, '..', 'data', 'openscriptures-OHB');
-const CACHE_PATH = join(__dirname, '..', 'cache');
+const DEFAULT_EDITION = 'openscriptures-OHB';
+
+// Default locations, relative to the loader backend's root
+const DATA_PATH = 'data/openscriptures-OHB';
+const CACHE_PATH = 'cache';
+
+const DEFAULT_CACHE_LIMITS = { maxEntries: 10000, maxBytes: 64 * 1024 * 1024 };
+const DEFAULT_READ_CONCURRENCY = 8;
+
+/**
+ * Stored verse data, shared with the cache, and where it is stored.
+ */
+interface StoredVerse {
+  chapter: number;
+  verse: number;
+  data: OhbVerseData;
+}
 
 /**
  * Edition metadata.
  */
 export const metadata: EditionMetadata = {
-  abbreviation: 'openscriptures-OHB',
+  abbreviation: DEFAULT_EDITION,
   name: 'Open Scriptures Hebrew Bible',
   language: 'Hebrew',
   license: 'CC BY 4.0',
@@ -26,96 +76,797 @@ export const metadata: EditionMetadata = {
 };
 
 /**
- * Source information for registration.
+ * Numbers 1 to `count`, for listing chapters and verses from `verseCounts`.
  */
-export const sourceInfo = {
-  edition: 'openscriptures-OHB',
-  metadata,
-  dataPath: DATA_PATH,
-  cachePath: CACHE_PATH,
-};
+function numbersTo(count: number): number[] {
+  return Array.from({ length: count }, (_, i) => i + 1);
+}
 
 /**
- * Hebrew Bible book name to OSIS mapping.
+ * Apply load options to cached verse data, returning a copy the caller may
+ * modify without affecting later loads.
  */
-const BOOK_TO_OSIS: Record<string, string> = {
-  'Genesis': 'Gen', 'Exodus': 'Exod', 'Leviticus': 'Lev', 'Numbers': 'Num',
-  'Deuteronomy': 'Deut', 'Joshua': 'Josh', 'Judges': 'Judg', 'Ruth': 'Ruth',
-  '1 Samuel': '1Sam', '2 Samuel': '2Sam', '1 Kings': '1Kgs', '2 Kings': '2Kgs',
-  '1 Chronicles': '1Chr', '2 Chronicles': '2Chr', 'Ezra': 'Ezra', 'Nehemiah': 'Neh',
-  'Esther': 'Esth', 'Job': 'Job', 'Psalms': 'Ps', 'Proverbs': 'Prov',
-  'Ecclesiastes': 'Eccl', 'Song of Solomon': 'Song', 'Isaiah': 'Isa', 'Jeremiah': 'Jer',
-  'Lamentations': 'Lam', 'Ezekiel': 'Ezek', 'Daniel': 'Dan', 'Hosea': 'Hos',
-  'Joel': 'Joel', 'Amos': 'Amos', 'Obadiah': 'Obad', 'Jonah': 'Jonah',
-  'Micah': 'Mic', 'Nahum': 'Nah', 'Habakkuk': 'Hab', 'Zephaniah': 'Zeph',
-  'Haggai': 'Hag', 'Zechariah': 'Zech', 'Malachi': 'Mal',
-};
+function prepareVerse(data: OhbVerseData, options: LoadOptions): OhbVerseData {
+  const read = structuredClone(applyReading(data, options.reading ?? 'both'));
+  if (options.morphology) {
+    for (const word of read.words as WordEntry[]) {
+      if (word.morph) word.morphology = decodeMorphology(word.morph);
+    }
+  }
+  return read;
+}
 
 /**
- * Convert book name to directory name (OSIS format).
+ * Strip the homograph letter and compound-name mark from a lemma
+ * ("1254 a" -> "1254", "1008+" -> "1008").
  */
-function toOsis(book: string): string {
-  return BOOK_TO_OSIS[book] || book;
+function lemmaBase(lemma: string): string {
+  return lemma.replace(/(?:\s*[a-z])?\+?$/, '');
 }
 
 /**
- * Load a single verse.
+ * One configured copy of the source: its edition, data locations, backend
+ * and caches. Every loader reads through this source's own backend.
  */
-export async function loadVerse(book: string, chapter: number, verse: number): Promise<VerseData> {
-  const osisBook = toOsis(book);
-  const filePath = join(DATA_PATH, osisBook, String(chapter), `${verse}.json`);
-
-  try {
-    const content = await readFile(filePath, 'utf-8');
-    return JSON.parse(content);
-  } catch (error) {
-    throw new Error(`Verse ${book} ${chapter}:${verse} not found in openscriptures-OHB`);
-  }
+export interface OhbSource {
+  edition: string;
+  metadata: EditionMetadata;
+  dataPath: string;
+  packedPath: string;
+  cachePath: string;
+  useBackend(selected: LoaderBackend): void;
+  configureCache(options: CacheOptions): void;
+  clearCache(): void;
+  preload(books: string[]): Promise<void>;
+  loadVerse(book: string, chapter: number, verse: number, options?: LoadOptions): Promise<OhbVerseData>;
+  loadChapter(book: string, chapter: number, options?: LoadOptions): Promise<OhbVerseData[]>;
+  loadBook(book: string, options?: LoadOptions): Promise<LocatedVerse[]>;
+  loadRange(start: Reference, end: Reference, options?: LoadOptions): Promise<LocatedVerse[]>;
+  loadPassage(reference: string, options?: LoadOptions): Promise<LocatedVerse[]>;
+  loadParagraphs(book: string, chapter?: number): Promise<Paragraph[]>;
+  loadNotes(book: string, chapter: number): Promise<LocatedNote[]>;
+  loadCache<N extends CacheName>(cacheName: N): Promise<CacheData[N]>;
+  /** Untyped form, for registries that look caches up by any name */
+  loadCache(cacheName: string): Promise<unknown>;
+  findOccurrences(query: OccurrenceQuery): Promise<Occurrence[]>;
+  searchMorphology(pattern: WordPattern | WordPattern[], options?: MorphologySearchOptions): Promise<MorphologyMatch[]>;
+  searchText(query: string, options?: TextSearchOptions): Promise<TextSearchHit[]>;
+  listQereKetiv(book?: string): Promise<QereKetivPair[]>;
+  findByGematria(value: number, options?: GematriaSearchOptions): Promise<GematriaMatch[]>;
+  listBooks(): string[];
 }
 
 /**
- * Load all verses in a chapter.
+ * Create a source reading the given edition from its own data locations and
+ * backend. Each source has separate caches, so several editions (e.g. two
+ * MorphHB releases) can be loaded side by side.
  */
-export async function loadChapter(book: string, chapter: number): Promise<VerseData[]> {
-  const osisBook = toOsis(book);
-  const chapterPath = join(DATA_PATH, osisBook, String(chapter));
-
-  try {
-    const files = await readdir(chapterPath);
-    const jsonFiles = files.filter(f => f.endsWith('.json')).sort((a, b) => {
-      const numA = parseInt(a.replace('.json', ''), 10);
-      const numB = parseInt(b.replace('.json', ''), 10);
-      return numA - numB;
-    });
+export function createSource(options: SourceOptions = {}): OhbSource {
+  const edition = options.edition ?? DEFAULT_EDITION;
+  const dataPath = options.dataPath ?? DATA_PATH;
+  const packedPath = options.packedPath ?? `${dataPath}-packed`;
+  const cachePath = options.cachePath ?? CACHE_PATH;
+  const sourceMetadata: EditionMetadata = { ...metadata, abbreviation: edition, ...options.metadata };
+  const configuredBackend = options.backend;
+
+  let backend: Promise<LoaderBackend> | undefined;
+
+  /**
+   * Select where data and caches are read from: `createNodeBackend()`,
+   * `createFetchBackend(url)` or `createMemoryBackend(files)`. Without a call,
+   * the backend given to `createSource` (or the Node file system backend) is
+   * created on first use.
+   */
+  function useBackend(selected: LoaderBackend): void {
+    backend = Promise.resolve(selected);
+    clearCache();
+  }
+
+  function getBackend(): Promise<LoaderBackend> {
+    backend ??=
+      typeof configuredBackend === 'function'
+        ? Promise.resolve().then(configuredBackend)
+        : configuredBackend
+          ? Promise.resolve(configuredBackend)
+          : import('./node.js').then(node => node.createNodeBackend());
+    return backend;
+  }
+
+  /**
+   * List the numbered entries of a data directory in numeric order, or return
+   * null if the backend cannot list directories.
+   */
+  async function listNumbered(location: string, extension = ''): Promise<number[] | null> {
+    const selected = await getBackend();
+    if (!selected.list) return null;
+    const entries = await selected.list(location);
+    return entries
+      .filter(e => e.endsWith(extension) && /^\d+$/.test(e.slice(0, e.length - extension.length)))
+      .map(e => parseInt(e, 10))
+      .sort((a, b) => a - b);
+  }
+
+  // Parsed verses, keyed by "Book.chapter.verse" and sized by their JSON text in UTF-16
+  const verseCache = new LruCache<string, OhbVerseData>(
+    DEFAULT_CACHE_LIMITS,
+    data => JSON.stringify(data).length * 2
+  );
+  let readConcurrency = DEFAULT_READ_CONCURRENCY;
+
+  const packedBooks = new Map<string, Promise<PackedBookReader | null>>();
+
+  // Concordance indexes are large, so each is read once until the cache is cleared
+  const concordanceIndexes = new Map<'strongs' | 'lemmas', Promise<Record<string, OccurrenceRef[]>>>();
+
+  /**
+   * Set the verse cache limits and how many verse files `loadChapter` reads at once.
+   */
+  function configureCache(options: CacheOptions): void {
+    verseCache.configure(options);
+    if (options.readConcurrency !== undefined) {
+      readConcurrency = Math.max(1, options.readConcurrency);
+    }
+  }
+
+  /**
+   * Drop cached verses, packed book headers and concordance indexes.
+   */
+  function clearCache(): void {
+    verseCache.clear();
+    packedBooks.clear();
+    concordanceIndexes.clear();
+  }
 
-    const verses: VerseData[] = [];
-    for (const file of jsonFiles) {
-      const content = await readFile(join(chapterPath, file), 'utf-8');
-      verses.push(JSON.parse(content));
+  /**
+   * Open a book's packed file, or resolve to null when the book is stored only
+   * as per-verse JSON files.
+   */
+  function packedBook(osisBook: string): Promise<PackedBookReader | null> {
+    let reader = packedBooks.get(osisBook);
+    if (!reader) {
+      reader = getBackend()
+        .then(selected => PackedBookReader.open(selected, joinLocation(packedPath, `${osisBook}.jsonl`)))
+        .catch(error => {
+          if (isNotFound(error)) return null;
+          throw error;
+        });
+      packedBooks.set(osisBook, reader);
+    }
+    return reader;
+  }
+
+  /**
+   * List the chapters stored for a book.
+   */
+  async function listChapters(osisBook: string): Promise<number[]> {
+    const packed = await packedBook(osisBook);
+    if (packed) return packed.chapters();
+
+    const chapters = await listNumbered(joinLocation(dataPath, osisBook));
+    return chapters ?? numbersTo((await loadCache('verseCounts'))[osisBook]?.length ?? 0);
+  }
+
+  /**
+   * List the verses stored as JSON files for a chapter.
+   */
+  async function listVerseFiles(osisBook: string, chapter: number): Promise<number[]> {
+    const verses = await listNumbered(joinLocation(dataPath, osisBook, chapter), '.json');
+    if (verses) return verses;
+
+    const count = (await loadCache('verseCounts'))[osisBook]?.[chapter - 1];
+    if (!count) throw new Error(`No chapter ${osisBook}.${chapter}`);
+    return numbersTo(count);
+  }
+
+  /**
+   * Add segments and gematria to freshly read verse data and cache it.
+   */
+  function cacheVerse(osisBook: string, chapter: number, verse: number, data: OhbVerseData): OhbVerseData {
+    withSegments(data);
+    withGematria(data);
+    verseCache.set(`${osisBook}.${chapter}.${verse}`, data);
+    return data;
+  }
+
+  async function readVerseFile(osisBook: string, chapter: number, verse: number): Promise<OhbVerseData> {
+    const cached = verseCache.get(`${osisBook}.${chapter}.${verse}`);
+    if (cached) return cached;
+
+    const content = await (await getBackend()).readText(joinLocation(dataPath, osisBook, chapter, `${verse}.json`));
+    return cacheVerse(osisBook, chapter, verse, JSON.parse(content));
+  }
+
+  /**
+   * Read one stored verse. The result is shared with the cache.
+   *
+   * @throws Error if the verse is not stored
+   */
+  async function readVerseData(osisBook: string, chapter: number, verse: number): Promise<OhbVerseData> {
+    const packed = await packedBook(osisBook);
+    if (!packed) {
+      return readVerseFile(osisBook, chapter, verse);
+    }
+
+    const cached = verseCache.get(`${osisBook}.${chapter}.${verse}`);
+    if (cached) return cached;
+    const data = await packed.readVerse(chapter, verse);
+    if (!data) throw new Error(`No verse ${osisBook}.${chapter}.${verse}`);
+    return cacheVerse(osisBook, chapter, verse, data);
+  }
+
+  /**
+   * Read every stored verse of a chapter, in order. Results are shared with
+   * the cache.
+   *
+   * @throws Error if the chapter is not stored
+   */
+  async function readChapterData(
+    osisBook: string,
+    chapter: number
+  ): Promise<Array<{ verse: number; data: OhbVerseData }>> {
+    const packed = await packedBook(osisBook);
+    if (!packed) {
+      const verses = await listVerseFiles(osisBook, chapter);
+      return mapWithConcurrency(verses, readConcurrency, async verse => ({
+        verse,
+        data: await readVerseFile(osisBook, chapter, verse),
+      }));
+    }
+
+    const numbers = packed.verses(chapter);
+    if (numbers.length === 0) throw new Error(`No chapter ${osisBook}.${chapter}`);
+    const cached = numbers.map(verse => ({ verse, data: verseCache.get(`${osisBook}.${chapter}.${verse}`) }));
+    if (cached.every(entry => entry.data)) {
+      return cached as Array<{ verse: number; data: OhbVerseData }>;
+    }
+
+    const verses = await packed.readChapter(chapter);
+    return verses.map(({ verse, data }) => ({ verse, data: cacheVerse(osisBook, chapter, verse, data) }));
+  }
+
+  /**
+   * Read the given books into the verse cache, as far as its limits allow.
+   */
+  async function preload(books: string[]): Promise<void> {
+    for (const book of books) {
+      const osisBook = resolveBook(book);
+      for (const chapter of await listChapters(osisBook)) {
+        await readChapterData(osisBook, chapter);
+      }
+    }
+  }
+
+  /**
+   * Load a single verse.
+   */
+  async function loadVerse(
+    book: string,
+    chapter: number,
+    verse: number,
+    options: LoadOptions = {}
+  ): Promise<OhbVerseData> {
+    const osisBook = resolveBook(book);
+    const ref = options.versification
+      ? mapReference({ book, chapter, verse }, options.versification, 'wlc')
+      : { book, chapter, verse };
+    if (!ref) {
+      throw new Error(`Verse ${book} ${chapter}:${verse} not found in ${edition}`);
+    }
+
+    let data: OhbVerseData;
+    try {
+      data = await readVerseData(osisBook, ref.chapter, ref.verse);
+    } catch (error) {
+      throw new Error(`Verse ${book} ${chapter}:${verse} not found in ${edition}`);
+    }
+    return prepareVerse(data, options);
+  }
+
+  /**
+   * Load all verses in a chapter.
+   */
+  async function loadChapter(
+    book: string,
+    chapter: number,
+    options: LoadOptions = {}
+  ): Promise<OhbVerseData[]> {
+    if (options.versification && options.versification !== 'wlc') {
+      return loadMappedChapter(book, chapter, options);
+    }
+
+    const osisBook = resolveBook(book);
+
+    let verses: Array<{ verse: number; data: OhbVerseData }>;
+    try {
+      verses = await readChapterData(osisBook, chapter);
+    } catch (error) {
+      throw new Error(`Chapter ${book} ${chapter} not found in ${edition}`);
+    }
+    return verses.map(({ data }) => prepareVerse(data, options));
+  }
+
+  /**
+   * Load a chapter numbered in another versification by collecting the Hebrew
+   * verses that map into it.
+   */
+  async function loadMappedChapter(
+    book: string,
+    chapter: number,
+    options: LoadOptions
+  ): Promise<OhbVerseData[]> {
+    const osisBook = resolveBook(book);
+    const mapped: Array<{ verse: number; data: OhbVerseData }> = [];
+
+    for (const hebrewChapter of hebrewChaptersFor(book, chapter)) {
+      let verses: Array<{ verse: number; data: OhbVerseData }>;
+      try {
+        verses = await readChapterData(osisBook, hebrewChapter);
+      } catch (error) {
+        continue;
+      }
+
+      for (const { verse, data } of verses) {
+        const ref = mapReference({ book, chapter: hebrewChapter, verse }, 'wlc', options.versification!);
+        if (ref?.chapter !== chapter) continue;
+        mapped.push({ verse: ref.verse, data: prepareVerse(data, options) });
+      }
+    }
+
+    if (mapped.length === 0) {
+      throw new Error(`Chapter ${book} ${chapter} not found in ${edition}`);
+    }
+    return mapped.sort((a, b) => a.verse - b.verse).map(m => m.data);
+  }
+
+  /**
+   * Read the stored verses of one book between two points, inclusive. The
+   * data is shared with the cache.
+   *
+   * A point without a verse covers its whole chapter.
+   */
+  async function readRangeData(
+    osisBook: string,
+    start: PassagePoint,
+    end: PassagePoint
+  ): Promise<StoredVerse[]> {
+    const chapters = (await listChapters(osisBook)).filter(c => c >= start.chapter && c <= end.chapter);
+
+    const verses: StoredVerse[] = [];
+    for (const chapter of chapters) {
+      for (const { verse, data } of await readChapterData(osisBook, chapter)) {
+        if (chapter === start.chapter && verse < (start.verse ?? 0)) continue;
+        if (chapter === end.chapter && verse > (end.verse ?? Infinity)) continue;
+        verses.push({ chapter, verse, data });
+      }
     }
     return verses;
-  } catch (error) {
-    throw new Error(`Chapter ${book} ${chapter} not found in openscriptures-OHB`);
   }
-}
 
-/**
- * Load cache data.
- */
-export async function loadCache(cacheName: string): Promise<Record<string, unknown>> {
-  const filePath = join(CACHE_PATH, `${cacheName}.json`);
+  /**
+   * Apply load options to stored verses and locate them in `osisBook`.
+   */
+  function locateVerses(
+    osisBook: string,
+    verses: StoredVerse[],
+    options: LoadOptions
+  ): LocatedVerse[] {
+    return verses.map(({ chapter, verse, data }) => ({ ...prepareVerse(data, options), book: osisBook, chapter, verse }));
+  }
+
+  /**
+   * Read the stored verses of a passage, mapping its endpoints to WLC
+   * numbering when another versification is requested. The data is shared
+   * with the cache.
+   */
+  async function readPassageData(
+    passage: Passage,
+    label: string,
+    versification: LoadOptions['versification']
+  ): Promise<StoredVerse[]> {
+    const toWlc = (point: PassagePoint): PassagePoint | null =>
+      versification && point.verse !== undefined
+        ? mapReference({ book: passage.book, chapter: point.chapter, verse: point.verse }, versification, 'wlc')
+        : point;
+
+    const start = toWlc(passage.start);
+    const end = toWlc(passage.end);
+    let verses: StoredVerse[] = [];
+    if (start && end) {
+      try {
+        verses = await readRangeData(passage.book, start, end);
+      } catch (error) {
+        // Missing chapter directories are reported as not found below
+      }
+    }
+    if (verses.length === 0) {
+      throw new Error(`Passage ${label} not found in ${edition}`);
+    }
+    return verses;
+  }
+
+  /**
+   * Load the verses of a passage, in the versification `options` asks for.
+   */
+  async function loadPassageVerses(
+    passage: Passage,
+    label: string,
+    options: LoadOptions
+  ): Promise<LocatedVerse[]> {
+    return locateVerses(passage.book, await readPassageData(passage, label, options.versification), options);
+  }
+
+  /**
+   * Load every verse of a book.
+   */
+  async function loadBook(book: string, options: LoadOptions = {}): Promise<LocatedVerse[]> {
+    const osisBook = resolveBook(book);
+
+    let verses: StoredVerse[];
+    try {
+      verses = await readRangeData(osisBook, { chapter: 1 }, { chapter: Infinity });
+    } catch (error) {
+      throw new Error(`Book ${book} not found in ${edition}`);
+    }
+    return locateVerses(osisBook, verses, options);
+  }
+
+  /**
+   * Load all verses from `start` to `end`, inclusive, crossing chapter boundaries.
+   */
+  async function loadRange(
+    start: Reference,
+    end: Reference,
+    options: LoadOptions = {}
+  ): Promise<LocatedVerse[]> {
+    const osisBook = resolveBook(start.book);
+    if (resolveBook(end.book) !== osisBook) {
+      throw new Error(`Range ${start.book} to ${end.book} must stay within one book`);
+    }
+
+    return loadPassageVerses(
+      {
+        book: osisBook,
+        start: { chapter: start.chapter, verse: start.verse },
+        end: { chapter: end.chapter, verse: end.verse },
+      },
+      `${start.book} ${start.chapter}:${start.verse}-${end.chapter}:${end.verse}`,
+      options
+    );
+  }
+
+  /**
+   * Load the verses of a reference string such as "Gen 1:26-2:3" or
+   * "Isa 40:1-11; 52:7".
+   */
+  async function loadPassage(reference: string, options: LoadOptions = {}): Promise<LocatedVerse[]> {
+    const verses: LocatedVerse[] = [];
+    for (const passage of parseReference(reference)) {
+      verses.push(...await loadPassageVerses(passage, reference, options));
+    }
+    return verses;
+  }
+
+  /**
+   * Visit the verses a search covers in canonical order, reading a whole
+   * scope one chapter at a time. Verse data is shared with the cache, so
+   * `visit` must not modify it.
+   */
+  async function forEachInScope(scope: SearchScope, visit: (verse: LocatedVerse) => void): Promise<void> {
+    if (scope.range) {
+      const passages = parseReference(scope.range);
+      if (scope.book && passages[0]?.book !== resolveBook(scope.book)) {
+        throw new Error(`Range ${scope.range} is not in ${scope.book}`);
+      }
+      for (const passage of passages) {
+        for (const { chapter, verse, data } of await readPassageData(passage, scope.range, undefined)) {
+          visit({ ...data, book: passage.book, chapter, verse });
+        }
+      }
+      return;
+    }
+
+    for (const osisBook of scope.book ? [resolveBook(scope.book)] : Object.values(BOOK_TO_OSIS)) {
+      const notFound = () => new Error(`Book ${scope.book ?? osisBook} not found in ${edition}`);
+      let chapters: number[];
+      try {
+        chapters = await listChapters(osisBook);
+      } catch (error) {
+        throw notFound();
+      }
+
+      for (const chapter of chapters) {
+        let verses: Array<{ verse: number; data: OhbVerseData }>;
+        try {
+          verses = await readChapterData(osisBook, chapter);
+        } catch (error) {
+          throw notFound();
+        }
+        for (const { verse, data } of verses) {
+          visit({ ...data, book: osisBook, chapter, verse });
+        }
+      }
+    }
+  }
+
+  /**
+   * Find words, or runs of adjacent words, matching morphology patterns.
+   *
+   * A single pattern matches individual words; an array matches that many
+   * adjacent words within a verse, in order.
+   */
+  async function searchMorphology(
+    pattern: WordPattern | WordPattern[],
+    options: MorphologySearchOptions = {}
+  ): Promise<MorphologyMatch[]> {
+    const patterns = Array.isArray(pattern) ? pattern : [pattern];
+    if (patterns.length === 0) {
+      throw new Error('searchMorphology requires at least one pattern');
+    }
 
-  try {
-    const content = await readFile(filePath, 'utf-8');
-    return JSON.parse(content);
-  } catch (error) {
-    throw new Error(`Cache '${cacheName}' not found`);
+    const matches: MorphologyMatch[] = [];
+    await forEachInScope(options, ({ book, chapter, verse, words }) => {
+      for (const positions of matchSequence(words, patterns)) {
+        matches.push({ book, chapter, verse, positions });
+      }
+    });
+    return matches;
+  }
+
+  /**
+   * Search verse text, ignoring as much pointing as `normalization` asks.
+   *
+   * Supports phrases (`"ברא אלהים"`), proximity (`משה NEAR/5 אהרן`) and `*`
+   * wildcards; see `parseTextQuery`.
+   */
+  async function searchText(query: string, options: TextSearchOptions = {}): Promise<TextSearchHit[]> {
+    const parsed = parseTextQuery(query, options.normalization ?? 'consonants');
+
+    const hits: TextSearchHit[] = [];
+    await forEachInScope(options, ({ book, chapter, verse, words }) => {
+      const positions = matchTextQuery(words, parsed);
+      if (positions) hits.push({ book, chapter, verse, positions });
+    });
+    return hits;
+  }
+
+  /**
+   * Find words, or verses, whose gematria equals `value`, in canonical order.
+   */
+  async function findByGematria(value: number, options: GematriaSearchOptions = {}): Promise<GematriaMatch[]> {
+    const { method = 'standard', unit = 'word' } = options;
+    if (!GEMATRIA_METHODS.includes(method)) {
+      throw new Error(`Unknown gematria method '${method}'`);
+    }
+
+    const matches: GematriaMatch[] = [];
+    await forEachInScope(options, ({ book, chapter, verse, words, gematria }) => {
+      if (unit === 'verse') {
+        if (gematria?.[method] !== value) return;
+        const positions = (words as WordEntry[]).filter(word => word.variant !== 'qere').map(word => word.position);
+        matches.push({ book, chapter, verse, positions });
+        return;
+      }
+      for (const word of words as WordEntry[]) {
+        if (word.gematria?.[method] === value) {
+          matches.push({ book, chapter, verse, positions: [word.position] });
+        }
+      }
+    });
+    return matches;
   }
+
+  /**
+   * List every Qere/Ketiv variant of a book, or of the whole Hebrew Bible,
+   * in canonical order.
+   */
+  async function listQereKetiv(book?: string): Promise<QereKetivPair[]> {
+    const pairs: QereKetivPair[] = [];
+    await forEachInScope({ book }, ({ book: osisBook, chapter, verse, words }) => {
+      for (const { ketiv, qere } of pairVariants(words)) {
+        pairs.push({
+          book: osisBook,
+          chapter,
+          verse,
+          ketiv: { positions: ketiv.map(word => word.position), text: ketiv.map(word => word.text).join(' ') },
+          qere: { positions: qere.map(word => word.position), text: qere.map(word => word.text).join(' ') },
+        });
+      }
+    });
+    return pairs;
+  }
+
+  /**
+   * Load the Masoretic paragraphs of a book, or those overlapping one chapter.
+   */
+  async function loadParagraphs(book: string, chapter?: number): Promise<Paragraph[]> {
+    const osisBook = resolveBook(book);
+
+    const verses: Array<{ chapter: number; verse: number; paragraph?: OhbVerseData['paragraph'] }> = [];
+    try {
+      for (const chapterNumber of await listChapters(osisBook)) {
+        for (const { verse, data } of await readChapterData(osisBook, chapterNumber)) {
+          verses.push({ chapter: chapterNumber, verse, paragraph: data.paragraph });
+        }
+      }
+    } catch (error) {
+      throw new Error(`Book ${book} not found in ${edition}`);
+    }
+
+    const paragraphs = groupParagraphs(verses);
+    if (chapter === undefined) return paragraphs;
+
+    const inChapter = paragraphs.filter(p => p.start.chapter <= chapter && p.end.chapter >= chapter);
+    if (inChapter.length === 0) {
+      throw new Error(`Chapter ${book} ${chapter} not found in ${edition}`);
+    }
+    return inChapter;
+  }
+
+  /**
+   * Load the textual-critical notes of a chapter, in verse order.
+   */
+  async function loadNotes(book: string, chapter: number): Promise<LocatedNote[]> {
+    const osisBook = resolveBook(book);
+
+    let verses: Array<{ verse: number; data: OhbVerseData }>;
+    try {
+      verses = await readChapterData(osisBook, chapter);
+    } catch (error) {
+      throw new Error(`Chapter ${book} ${chapter} not found in ${edition}`);
+    }
+    return verses.flatMap(({ verse, data }) =>
+      (data.notes ?? []).map((note: TextualNote) => ({ ...note, book: osisBook, chapter, verse }))
+    );
+  }
+
+  /**
+   * Load a prebuilt index from the cache directory.
+   *
+   * @throws Error if the cache is unknown or has not been built
+   */
+  function loadCache<N extends CacheName>(cacheName: N): Promise<CacheData[N]>;
+  function loadCache(cacheName: string): Promise<unknown>;
+  async function loadCache(cacheName: string): Promise<unknown> {
+    if (!isCacheName(cacheName)) {
+      throw new Error(`Cache '${cacheName}' not found`);
+    }
+    const location = joinLocation(cachePath, `${cacheName}.json`);
+
+    try {
+      const content = await (await getBackend()).readText(location);
+      return JSON.parse(content);
+    } catch (error) {
+      throw new Error(`Cache '${cacheName}' not found`);
+    }
+  }
+
+  function loadConcordanceIndex(name: 'strongs' | 'lemmas'): Promise<Record<string, OccurrenceRef[]>> {
+    let index = concordanceIndexes.get(name);
+    if (!index) {
+      index = loadCache(name);
+      index.catch(() => concordanceIndexes.delete(name));
+      concordanceIndexes.set(name, index);
+    }
+    return index;
+  }
+
+  /**
+   * Find every word tagged with a Strong's number or lemma, in canonical order.
+   *
+   * @throws Error if neither `strongs` nor `lemma` is given
+   */
+  async function findOccurrences(query: OccurrenceQuery): Promise<Occurrence[]> {
+    const { strongs, lemma, book, distinguishHomographs = false } = query;
+    if (!strongs && !lemma) {
+      throw new Error('findOccurrences requires a strongs or lemma query');
+    }
+    const osisBook = book ? resolveBook(book) : undefined;
+
+    let refs: OccurrenceRef[] | undefined;
+    if (strongs) {
+      const key = `H${parseInt(strongs.replace(/^[Hh]/, ''), 10)}`;
+      refs = (await loadConcordanceIndex('strongs'))[key] ?? [];
+    }
+    if (lemma) {
+      const lemmas = await loadConcordanceIndex('lemmas');
+      const wanted = lemma.trim();
+      const keys = distinguishHomographs
+        ? [wanted]
+        : Object.keys(lemmas).filter(key => lemmaBase(key) === lemmaBase(wanted));
+      const lemmaRefs = new Set(keys.flatMap(key => lemmas[key] ?? []));
+      refs = refs ? refs.filter(ref => lemmaRefs.has(ref)) : [...lemmaRefs];
+    }
+
+    const order = Object.values(BOOK_TO_OSIS);
+    return refs!
+      .map(parseOccurrenceRef)
+      .filter(occurrence => !osisBook || occurrence.book === osisBook)
+      .sort((a, b) =>
+        order.indexOf(a.book) - order.indexOf(b.book) ||
+        a.chapter - b.chapter ||
+        a.verse - b.verse ||
+        a.position - b.position
+      );
+  }
+
+  /**
+   * List available books (Old Testament only).
+   */
+  function listBooks(): string[] {
+    return Object.keys(BOOK_TO_OSIS);
+  }
+
+  return {
+    edition,
+    metadata: sourceMetadata,
+    dataPath,
+    packedPath,
+    cachePath,
+    useBackend,
+    configureCache,
+    clearCache,
+    preload,
+    loadVerse,
+    loadChapter,
+    loadBook,
+    loadRange,
+    loadPassage,
+    loadParagraphs,
+    loadNotes,
+    loadCache,
+    findOccurrences,
+    searchMorphology,
+    searchText,
+    listQereKetiv,
+    findByGematria,
+    listBooks,
+  };
 }
 
+const defaultSource = createSource();
+
 /**
- * List available books (Old Testament only).
+ * Resolve a location under the package directory to an absolute file path,
+ * or to a URL where the package is not loaded from the file system.
  */
-export function listBooks(): string[] {
-  return Object.keys(BOOK_TO_OSIS);
+function packagePath(location: string): string {
+  const url = new URL(`../${location}`, import.meta.url);
+  if (url.protocol !== 'file:') return url.href;
+  return decodeURIComponent(url.pathname).replace(/^\/([A-Za-z]:)/, '$1');
 }
+
+/**
+ * Source information for registration. `dataPath` and `cachePath` are the
+ * absolute paths the default Node backend reads; `dataLocation` and
+ * `cacheLocation` are the same places relative to the backend's root.
+ */
+export const sourceInfo = {
+  edition: defaultSource.edition,
+  metadata: defaultSource.metadata,
+  dataPath: packagePath(defaultSource.dataPath),
+  cachePath: packagePath(defaultSource.cachePath),
+  dataLocation: defaultSource.dataPath,
+  cacheLocation: defaultSource.cachePath,
+};
+
+// Loaders of the default source, registered by the package entry points
+export const {
+  useBackend,
+  configureCache,
+  clearCache,
+  preload,
+  loadVerse,
+  loadChapter,
+  loadBook,
+  loadRange,
+  loadPassage,
+  loadParagraphs,
+  loadNotes,
+  loadCache,
+  findOccurrences,
+  searchMorphology,
+  searchText,
+  listQereKetiv,
+  findByGematria,
+  listBooks,
+} = defaultSource;
@@ -0,0 +1,83 @@
+/**
+ * Verse text reconstruction from word entries, and Hebrew text normalization.
+ */
+
+import type { Punctuation, WordEntry } from './types.js';
+
+const MAQQEF = '\u05BE';
+const PASEQ = '\u05C0';
+const SOF_PASUQ = '\u05C3';
+
+/**
+ * Rebuild verse text from its words and the punctuation that follows each one.
+ *
+ * Words without recorded punctuation are joined with a space.
+ */
+export function joinWords(words: Array<Pick<WordEntry, 'text' | 'punctuation'>>): string {
+  let text = '';
+  words.forEach((word, i) => {
+    const isLast = i === words.length - 1;
+    const punctuation: Punctuation | undefined = word.punctuation ?? (isLast ? undefined : 'space');
+    text += word.text;
+    switch (punctuation) {
+      case 'maqqef':
+        text += MAQQEF;
+        break;
+      case 'sofPasuq':
+        text += isLast ? SOF_PASUQ : `${SOF_PASUQ} `;
+        break;
+      case 'paseq':
+        text += isLast ? ` ${PASEQ}` : ` ${PASEQ} `;
+        break;
+      case 'space':
+        if (!isLast) text += ' ';
+        break;
+    }
+  });
+  return text;
+}
+
+/**
+ * How much of the pointing to ignore when comparing Hebrew text. Each level
+ * includes the ones before it: `noCantillation` drops accents, `consonants`
+ * also drops vowels and other marks, and `ignoreFinalForms` also folds final
+ * letters (ך ם ן ף ץ) into their regular forms.
+ */
+export type Normalization = 'exact' | 'noCantillation' | 'consonants' | 'ignoreFinalForms';
+
+const FINAL_FORMS: Record<string, string> = {
+  '\u05DA': '\u05DB', '\u05DD': '\u05DE', '\u05DF': '\u05E0', '\u05E3': '\u05E4', '\u05E5': '\u05E6',
+};
+
+/**
+ * Remove cantillation marks (te'amim), meteg, rafe, paseq, sof pasuq and
+ * nun hafukha, keeping consonants and vowel points.
+ */
+export function removeCantillation(text: string): string {
+  return text.replace(/[\u0591-\u05AF\u05BD\u05BF\u05C0\u05C3\u05C6]/g, '');
+}
+
+/**
+ * Keep only Hebrew consonants.
+ */
+export function extractConsonants(text: string): string {
+  return text.replace(/[^\u05D0-\u05EA]/g, '');
+}
+
+/**
+ * Normalize Hebrew text to the given level. Text is also put in Unicode NFC
+ * so differently ordered points compare equal.
+ */
+export function normalizeHebrew(text: string, level: Normalization): string {
+  const composed = text.normalize('NFC');
+  switch (level) {
+    case 'exact':
+      return composed;
+    case 'noCantillation':
+      return removeCantillation(composed);
+    case 'consonants':
+      return extractConsonants(composed);
+    case 'ignoreFinalForms':
+      return extractConsonants(composed).replace(/[\u05DA\u05DD\u05DF\u05E3\u05E5]/g, letter => FINAL_FORMS[letter]);
+  }
+}
@@ -0,0 +1,284 @@
+/**
+ * Word and verse shapes stored in the openscriptures-OHB data files.
+ */
+
+import type { EditionMetadata, VerseData } from '@metaxia/scriptures-core';
+import type { LoaderBackend } from './backends.js';
+import type { Morphology } from './morphology.js';
+import type { Versification } from './versification.js';
+import type { Normalization } from './text.js';
+import type { Reading } from './qere.js';
+import type { Gematria, GematriaMethod } from './gematria.js';
+import type { CacheLimits } from './lru.js';
+
+/**
+ * One morpheme of a word: a prefix, the stem, or a pronominal/paragogic suffix.
+ */
+export interface MorphemeSegment {
+  type: 'prefix' | 'stem' | 'suffix';
+  /** Lemma piece (e.g. "c", "1254 a"), null for suffixes */
+  lemma: string | null;
+  /** Morph code without the language letter (e.g. "C", "Ncfsa", "Sp3ms") */
+  morph: string | null;
+  /** Strong's number for this piece, when the lemma piece has one */
+  strongs?: string;
+}
+
+/**
+ * Punctuation that follows a word in the Leningrad Codex.
+ */
+export type Punctuation = 'maqqef' | 'sofPasuq' | 'paseq' | 'space';
+
+export interface WordEntry {
+  position: number;
+  text: string;
+  lemma?: string | null;
+  morph?: string | null;
+  strongs?: string[];
+  variant?: 'ketiv' | 'qere';
+  /** Punctuation that follows the word, absent after a verse's last word */
+  punctuation?: Punctuation;
+  metadata?: Record<string, unknown>;
+  /** Raw source data preserved for reference */
+  source?: {
+    lemma?: string;
+    morph?: string;
+    type?: string;
+  };
+  /** Lemma and morph split into prefix, stem and suffix pieces */
+  segments?: MorphemeSegment[];
+  /** Gematria of the word's letters */
+  gematria?: Gematria;
+  /** Decoded morph code, added when loading with `{ morphology: true }` */
+  morphology?: Morphology;
+}
+
+/**
+ * Masoretic paragraph break: פ petuchah (open) or ס setumah (closed).
+ */
+export type ParagraphMarker = 'petuchah' | 'setumah';
+
+/**
+ * A textual-critical note from the MorphHB apparatus, such as an alternative
+ * accentuation or "We read one or more accents in L differently than BHS."
+ */
+export interface TextualNote {
+  /**
+   * The alternative reading's type (e.g. 'x-accent'), else the note's type
+   * attribute, or 'note' for untyped notes
+   */
+  type: string;
+  /** Position of the word the note follows (`words[].position`), 0 before the first word */
+  position: number;
+  /** The note's own text */
+  text?: string;
+  /** Alternative reading the note gives */
+  reading?: string;
+}
+
+/**
+ * Verse data as returned by the loaders.
+ */
+export type OhbVerseData = VerseData & {
+  text: string;
+  words: WordEntry[];
+  /** Total gematria of the verse's written words (qere words excluded) */
+  gematria?: Gematria;
+  /** Textual-critical notes, in verse order */
+  notes?: TextualNote[];
+  /** Paragraph break that follows this verse */
+  paragraph?: ParagraphMarker;
+};
+
+/**
+ * Verse data together with its location, as returned by book and range loaders.
+ */
+export type LocatedVerse = OhbVerseData & {
+  /** OSIS book ID */
+  book: string;
+  chapter: number;
+  verse: number;
+};
+
+/**
+ * A textual-critical note together with its verse, as returned by `loadNotes`.
+ */
+export type LocatedNote = TextualNote & {
+  /** OSIS book ID */
+  book: string;
+  chapter: number;
+  verse: number;
+};
+
+/**
+ * A chapter and verse within a book.
+ */
+export interface VerseRef {
+  chapter: number;
+  verse: number;
+}
+
+/**
+ * A run of verses closed by a Masoretic paragraph marker.
+ */
+export interface Paragraph {
+  /** Marker that closes the paragraph, absent for a book's trailing paragraph */
+  marker?: ParagraphMarker;
+  start: VerseRef;
+  end: VerseRef;
+}
+
+/**
+ * Options accepted by `loadVerse` and `loadChapter`.
+ */
+export interface LoadOptions {
+  /** Add a decoded `morphology` object to each word */
+  morphology?: boolean;
+  /** Versification the requested reference uses (default: 'wlc') */
+  versification?: Versification;
+  /** Which words of Qere/Ketiv variants to return (default: 'both') */
+  reading?: Reading;
+}
+
+/**
+ * A word within a verse.
+ */
+export interface Occurrence {
+  /** OSIS book ID */
+  book: string;
+  chapter: number;
+  verse: number;
+  /** Word position within the verse (`words[].position`) */
+  position: number;
+}
+
+/**
+ * Words of one Qere/Ketiv variant, as returned by `listQereKetiv`.
+ */
+export interface VariantReading {
+  /** Word positions (`words[].position`), empty if this side has no words */
+  positions: number[];
+  text: string;
+}
+
+/**
+ * A Qere/Ketiv variant: the written ketiv and the qere read in its place.
+ */
+export interface QereKetivPair {
+  /** OSIS book ID */
+  book: string;
+  chapter: number;
+  verse: number;
+  ketiv: VariantReading;
+  qere: VariantReading;
+}
+
+/**
+ * Query accepted by `findOccurrences`. Both `strongs` and `lemma` must match
+ * when given together.
+ */
+export interface OccurrenceQuery {
+  /** Strong's number, with or without the H prefix ("H430", "430") */
+  strongs?: string;
+  /** Stem lemma, optionally with a homograph letter ("1254 a") */
+  lemma?: string;
+  /** Limit results to one book */
+  book?: string;
+  /** Match the lemma exactly, so "1254 a" excludes "1254 b" (default: false) */
+  distinguishHomographs?: boolean;
+}
+
+/**
+ * Where a search looks. Without either, the whole Hebrew Bible is searched.
+ */
+export interface SearchScope {
+  /** Limit the search to one book */
+  book?: string;
+  /** Limit the search to a passage reference such as "Gen 1-11" */
+  range?: string;
+}
+
+export type MorphologySearchOptions = SearchScope;
+
+/**
+ * A run of words matching a morphology search.
+ */
+export interface MorphologyMatch {
+  /** OSIS book ID */
+  book: string;
+  chapter: number;
+  verse: number;
+  /** Word positions (`words[].position`) of the matched words, in order */
+  positions: number[];
+}
+
+/**
+ * Options accepted by `searchText`.
+ */
+export interface TextSearchOptions extends SearchScope {
+  /** How much pointing to ignore (default: 'consonants') */
+  normalization?: Normalization;
+}
+
+/**
+ * A verse matching a full-text search.
+ */
+export interface TextSearchHit {
+  /** OSIS book ID */
+  book: string;
+  chapter: number;
+  verse: number;
+  /** Word positions (`words[].position`) to highlight, in order */
+  positions: number[];
+}
+
+/**
+ * Options accepted by `findByGematria`.
+ */
+export interface GematriaSearchOptions extends SearchScope {
+  /** How letters are counted (default: 'standard') */
+  method?: GematriaMethod;
+  /** Match single words or whole-verse totals (default: 'word') */
+  unit?: 'word' | 'verse';
+}
+
+/**
+ * A word, or a verse, whose gematria matches a lookup.
+ */
+export interface GematriaMatch {
+  /** OSIS book ID */
+  book: string;
+  chapter: number;
+  verse: number;
+  /** Position of the matched word, or of every word a verse total counts */
+  positions: number[];
+}
+
+/**
+ * Options accepted by `configureCache`.
+ */
+export interface CacheOptions extends CacheLimits {
+  /** How many verse files `loadChapter` reads at once (default: 8) */
+  readConcurrency?: number;
+}
+
+/**
+ * Options accepted by `createSource` and `register`.
+ */
+export interface SourceOptions {
+  /** Edition key to register under (default: 'openscriptures-OHB') */
+  edition?: string;
+  /** Metadata fields overriding the default edition metadata */
+  metadata?: Partial<EditionMetadata>;
+  /** Location of the per-verse JSON files (default: 'data/openscriptures-OHB') */
+  dataPath?: string;
+  /** Location of the packed book files (default: `dataPath` + '-packed') */
+  packedPath?: string;
+  /** Location of the prebuilt caches (default: 'cache') */
+  cachePath?: string;
+  /**
+   * Backend to read from, or a function that creates it on first use
+   * (default: the Node file system backend, rooted at the package directory)
+   */
+  backend?: LoaderBackend | (() => LoaderBackend | Promise<LoaderBackend>);
+}
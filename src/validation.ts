@@ -0,0 +1,132 @@
+/**
+ * Invariants the imported verse data must satisfy, checked by
+ * `scripts/validate.ts` after each import.
+ */
+
+import { pairVariants } from './qere.js';
+import { lemmaStrongs } from './segments.js';
+import type { OhbVerseData, WordEntry } from './types.js';
+
+/**
+ * The invariant an issue breaks:
+ * - `positions`: word positions run 1, 2, 3, … in order
+ * - `lemmas`: every word has a lemma unless `metadata.unlemmatized` flags it
+ * - `strongs`: `strongs` lists exactly the numbers in the lemma
+ * - `qereKetiv`: every ketiv has a qere and every qere a ketiv, apart from
+ *   the Masoretic ketiv-without-qere and qere-without-ketiv verses
+ * - `maqqef`: no word is a bare maqqef
+ * - `verseCounts`: each chapter has the verse count of the reference table
+ */
+export type ValidationCheck = 'positions' | 'lemmas' | 'strongs' | 'qereKetiv' | 'maqqef' | 'verseCounts';
+
+export const VALIDATION_CHECKS: ValidationCheck[] = [
+  'positions',
+  'lemmas',
+  'strongs',
+  'qereKetiv',
+  'maqqef',
+  'verseCounts',
+];
+
+export interface ValidationIssue {
+  check: ValidationCheck;
+  /** OSIS reference of the verse, or of the chapter or book for verse counts */
+  ref: string;
+  /** Word position, for issues with one word */
+  position?: number;
+  message: string;
+}
+
+const MAQQEF = '־';
+
+// Words written but not read (ketiv velo qere)
+const KETIV_WITHOUT_QERE = new Set([
+  '2Sam.13.33', '2Sam.15.21', '2Kgs.5.18', 'Jer.38.16', 'Jer.39.12', 'Jer.51.3', 'Ruth.3.12', 'Ezek.48.16',
+]);
+
+// Words read but not written (qere velo ketiv)
+const QERE_WITHOUT_KETIV = new Set([
+  'Judg.20.13', '2Sam.8.3', '2Sam.16.23', '2Sam.18.20', '2Kgs.19.31', '2Kgs.19.37', 'Jer.31.38', 'Jer.50.29',
+  'Ruth.3.5', 'Ruth.3.17',
+]);
+
+/**
+ * Check one verse against the word-level invariants.
+ */
+export function validateVerse(book: string, chapter: number, verse: number, data: OhbVerseData): ValidationIssue[] {
+  const ref = `${book}.${chapter}.${verse}`;
+  const issues: ValidationIssue[] = [];
+  const words = data.words as WordEntry[];
+
+  words.forEach((word, i) => {
+    const { position } = word;
+    if (position !== i + 1) {
+      issues.push({ check: 'positions', ref, position, message: `Word ${i + 1} has position ${position}` });
+    }
+    if (word.text.trim() === MAQQEF) {
+      issues.push({ check: 'maqqef', ref, position, message: 'Word is a bare maqqef' });
+    }
+    if (!word.lemma && !word.metadata?.unlemmatized) {
+      issues.push({ check: 'lemmas', ref, position, message: `Word '${word.text}' has no lemma` });
+    }
+
+    const expected = lemmaStrongs(word.lemma);
+    const actual = word.strongs ?? [];
+    if (JSON.stringify(actual) !== JSON.stringify(expected)) {
+      issues.push({
+        check: 'strongs',
+        ref,
+        position,
+        message: `Strong's [${actual.join(', ')}] do not match lemma '${word.lemma}' ([${expected.join(', ')}])`,
+      });
+    }
+  });
+
+  for (const { ketiv, qere } of pairVariants(words)) {
+    if (qere.length === 0 && !KETIV_WITHOUT_QERE.has(ref)) {
+      const position = ketiv[0].position;
+      issues.push({ check: 'qereKetiv', ref, position, message: `Ketiv '${ketiv[0].text}' has no qere` });
+    }
+    if (ketiv.length === 0 && !QERE_WITHOUT_KETIV.has(ref)) {
+      const position = qere[0].position;
+      issues.push({ check: 'qereKetiv', ref, position, message: `Qere '${qere[0].text}' has no ketiv` });
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Compare the verse counts of each chapter with a reference table, both
+ * keyed by OSIS book ID as in the `verseCounts` cache.
+ */
+export function validateVerseCounts(
+  actual: Record<string, number[]>,
+  expected: Record<string, number[]>
+): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  for (const [book, counts] of Object.entries(actual)) {
+    const reference = expected[book];
+    if (!reference) {
+      issues.push({ check: 'verseCounts', ref: book, message: `Book ${book} is not in the reference table` });
+      continue;
+    }
+    if (counts.length !== reference.length) {
+      issues.push({
+        check: 'verseCounts',
+        ref: book,
+        message: `${book} has ${counts.length} chapters, expected ${reference.length}`,
+      });
+    }
+    counts.forEach((count, i) => {
+      if (reference[i] !== undefined && count !== reference[i]) {
+        issues.push({
+          check: 'verseCounts',
+          ref: `${book}.${i + 1}`,
+          message: `${book} ${i + 1} has ${count} verses, expected ${reference[i]}`,
+        });
+      }
+    });
+  }
+  return issues;
+}
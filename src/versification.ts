@@ -0,0 +1,143 @@
+/**
+ * Mapping between Hebrew (BHS/WLC) and English (KJV/NRSV) verse numbering.
+ *
+ * The data follows WLC versification. English Bibles differ at chapter
+ * boundaries (Mal 3:19 = Mal 4:1, Joel 3:1 = Joel 2:28) and count psalm
+ * titles as verse 0 rather than verse 1. KJV and NRSV share the Old
+ * Testament numbering handled here.
+ */
+
+import { resolveBook } from './books.js';
+
+export type Versification = 'wlc' | 'kjv' | 'nrsv';
+
+export interface Reference {
+  book: string;
+  chapter: number;
+  verse: number;
+}
+
+/**
+ * English verses `englishStart`–`englishEnd` of `englishChapter` are Hebrew
+ * verses from `hebrewStart` of `hebrewChapter` on, or have no Hebrew
+ * equivalent when `hebrewChapter` is null. Where a verse of one scheme spans
+ * two of the other, the first matching rule is the primary mapping.
+ */
+type Shift = [
+  book: string,
+  englishChapter: number,
+  englishStart: number,
+  englishEnd: number,
+  hebrewChapter: number | null,
+  hebrewStart: number,
+];
+
+const SHIFTS: Shift[] = [
+  ['Gen', 31, 55, 55, 32, 1], ['Gen', 32, 1, 32, 32, 2],
+  ['Exod', 8, 1, 4, 7, 26], ['Exod', 8, 5, 32, 8, 1],
+  ['Exod', 22, 1, 1, 21, 37], ['Exod', 22, 2, 31, 22, 1],
+  ['Lev', 6, 1, 7, 5, 20], ['Lev', 6, 8, 30, 6, 1],
+  ['Num', 16, 36, 50, 17, 1], ['Num', 17, 1, 13, 17, 16],
+  ['Num', 29, 40, 40, 30, 1], ['Num', 30, 1, 16, 30, 2],
+  ['Deut', 12, 32, 32, 13, 1], ['Deut', 13, 1, 18, 13, 2],
+  ['Deut', 22, 30, 30, 23, 1], ['Deut', 23, 1, 25, 23, 2],
+  ['Deut', 29, 1, 1, 28, 69], ['Deut', 29, 2, 29, 29, 1],
+  ['1Sam', 20, 42, 42, 20, 42], ['1Sam', 20, 42, 42, 21, 1], ['1Sam', 21, 1, 15, 21, 2],
+  ['1Sam', 23, 29, 29, 24, 1], ['1Sam', 24, 1, 22, 24, 2],
+  ['2Sam', 18, 33, 33, 19, 1], ['2Sam', 19, 1, 43, 19, 2],
+  ['1Kgs', 4, 21, 34, 5, 1], ['1Kgs', 5, 1, 18, 5, 15],
+  ['1Kgs', 22, 43, 43, 22, 43], ['1Kgs', 22, 43, 43, 22, 44], ['1Kgs', 22, 44, 53, 22, 45],
+  ['2Kgs', 11, 21, 21, 12, 1], ['2Kgs', 12, 1, 21, 12, 2],
+  ['1Chr', 6, 1, 15, 5, 27], ['1Chr', 6, 16, 81, 6, 1],
+  ['1Chr', 12, 4, 4, 12, 4], ['1Chr', 12, 4, 4, 12, 5], ['1Chr', 12, 5, 40, 12, 6],
+  ['2Chr', 2, 1, 1, 1, 18], ['2Chr', 2, 2, 18, 2, 1],
+  ['2Chr', 14, 1, 1, 13, 23], ['2Chr', 14, 2, 15, 14, 1],
+  ['Neh', 4, 1, 6, 3, 33], ['Neh', 4, 7, 23, 4, 1],
+  ['Neh', 7, 68, 68, null, 0], ['Neh', 7, 69, 73, 7, 68],
+  ['Neh', 9, 38, 38, 10, 1], ['Neh', 10, 1, 39, 10, 2],
+  ['Job', 41, 1, 8, 40, 25], ['Job', 41, 9, 34, 41, 1],
+  ['Ps', 13, 0, 0, 13, 1], ['Ps', 13, 1, 5, 13, 2], ['Ps', 13, 6, 6, 13, 6],
+  ['Eccl', 5, 1, 1, 4, 17], ['Eccl', 5, 2, 20, 5, 1],
+  ['Song', 6, 13, 13, 7, 1], ['Song', 7, 1, 13, 7, 2],
+  ['Isa', 9, 1, 1, 8, 23], ['Isa', 9, 2, 21, 9, 1],
+  ['Isa', 63, 19, 19, 63, 19], ['Isa', 64, 1, 1, 63, 19], ['Isa', 64, 2, 12, 64, 1],
+  ['Jer', 9, 1, 1, 8, 23], ['Jer', 9, 2, 26, 9, 1],
+  ['Ezek', 20, 45, 49, 21, 1], ['Ezek', 21, 1, 32, 21, 6],
+  ['Dan', 4, 1, 3, 3, 31], ['Dan', 4, 4, 37, 4, 1],
+  ['Dan', 5, 31, 31, 6, 1], ['Dan', 6, 1, 28, 6, 2],
+  ['Hos', 1, 10, 11, 2, 1], ['Hos', 2, 1, 23, 2, 3],
+  ['Hos', 11, 12, 12, 12, 1], ['Hos', 12, 1, 14, 12, 2],
+  ['Hos', 13, 16, 16, 14, 1], ['Hos', 14, 1, 9, 14, 2],
+  ['Joel', 2, 28, 32, 3, 1], ['Joel', 3, 1, 21, 4, 1],
+  ['Jonah', 1, 17, 17, 2, 1], ['Jonah', 2, 1, 10, 2, 2],
+  ['Mic', 5, 1, 1, 4, 14], ['Mic', 5, 2, 15, 5, 1],
+  ['Nah', 1, 15, 15, 2, 1], ['Nah', 2, 1, 13, 2, 2],
+  ['Zech', 1, 18, 21, 2, 1], ['Zech', 2, 1, 13, 2, 5],
+  ['Mal', 4, 1, 6, 3, 19],
+];
+
+// Psalms whose titles are verse 1 (or verses 1–2) in Hebrew but verse 0 in English
+const ONE_VERSE_TITLES = [
+  3, 4, 5, 6, 7, 8, 9, 12, 18, 19, 20, 21, 22, 30, 31, 34, 36, 38, 39, 40, 41,
+  42, 44, 45, 46, 47, 48, 49, 53, 55, 56, 57, 58, 59, 61, 62, 63, 64, 65, 67,
+  68, 69, 70, 75, 76, 77, 80, 81, 83, 84, 85, 88, 89, 92, 102, 108, 140, 142,
+];
+const TWO_VERSE_TITLES = [51, 52, 54, 60];
+
+for (const psalm of ONE_VERSE_TITLES) {
+  SHIFTS.push(['Ps', psalm, 0, Infinity, psalm, 1]);
+}
+for (const psalm of TWO_VERSE_TITLES) {
+  SHIFTS.push(['Ps', psalm, 0, 0, psalm, 1], ['Ps', psalm, 0, Infinity, psalm, 2]);
+}
+
+function toHebrew(book: string, chapter: number, verse: number): Reference | null {
+  const osisBook = resolveBook(book);
+  for (const [shiftBook, engChapter, engStart, engEnd, hebChapter, hebStart] of SHIFTS) {
+    if (shiftBook !== osisBook || engChapter !== chapter) continue;
+    if (verse < engStart || verse > engEnd) continue;
+    if (hebChapter === null) return null;
+    return { book, chapter: hebChapter, verse: hebStart + verse - engStart };
+  }
+  return { book, chapter, verse };
+}
+
+function toEnglish(book: string, chapter: number, verse: number): Reference {
+  const osisBook = resolveBook(book);
+  for (const [shiftBook, engChapter, engStart, engEnd, hebChapter, hebStart] of SHIFTS) {
+    if (shiftBook !== osisBook || hebChapter !== chapter) continue;
+    const offset = verse - hebStart;
+    if (offset < 0 || offset > engEnd - engStart) continue;
+    return { book, chapter: engChapter, verse: engStart + offset };
+  }
+  return { book, chapter, verse };
+}
+
+/**
+ * Map a reference from one versification scheme to another.
+ *
+ * Returns null when the verse has no equivalent in the target scheme
+ * (e.g. Neh 7:68, which BHS omits).
+ */
+export function mapReference(ref: Reference, from: Versification, to: Versification): Reference | null {
+  const fromHebrew = from === 'wlc';
+  const toHebrewScheme = to === 'wlc';
+  if (fromHebrew === toHebrewScheme) return { ...ref };
+  return fromHebrew
+    ? toEnglish(ref.book, ref.chapter, ref.verse)
+    : toHebrew(ref.book, ref.chapter, ref.verse);
+}
+
+/**
+ * Hebrew chapters that may contain verses of the given English chapter.
+ */
+export function hebrewChaptersFor(book: string, chapter: number): number[] {
+  const osisBook = resolveBook(book);
+  const chapters = new Set([chapter]);
+  for (const [shiftBook, engChapter, , , hebChapter] of SHIFTS) {
+    if (shiftBook === osisBook && engChapter === chapter && hebChapter !== null) {
+      chapters.add(hebChapter);
+    }
+  }
+  return [...chapters].sort((a, b) => a - b);
+}
@@ -0,0 +1,95 @@
+/**
+ * Tests for the pluggable loader backends
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { readFile } from 'fs/promises';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+import { createFetchBackend, createMemoryBackend, joinLocation } from '../src/backends.js';
+import { createNodeBackend } from '../src/node.js';
+import { loadCache, loadChapter, loadVerse, sourceInfo, useBackend } from '../src/source.js';
+import type { LoaderBackend } from '../src/backends.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+const ROOT_DIR = join(__dirname, '..');
+
+async function readData(location: string): Promise<string> {
+  return readFile(join(ROOT_DIR, location), 'utf-8');
+}
+
+describe('joinLocation', () => {
+  it('joins segments with single slashes', () => {
+    expect(joinLocation('https://example.com/ohb/', 'data', 'Gen', 1, '1.json')).toBe('https://example.com/ohb/data/Gen/1/1.json');
+    expect(joinLocation('/srv/ohb', '', '/cache/')).toBe('/srv/ohb/cache');
+  });
+});
+
+describe('sourceInfo', () => {
+  it('gives absolute paths for the Node backend and locations relative to its root', async () => {
+    expect(sourceInfo.dataPath).toBe(join(ROOT_DIR, 'data', 'openscriptures-OHB'));
+    expect(sourceInfo.cachePath).toBe(join(ROOT_DIR, 'cache'));
+    expect(JSON.parse(await readFile(join(sourceInfo.dataPath, 'metadata.json'), 'utf-8'))).toHaveProperty('abbreviation', 'OHB');
+    expect(sourceInfo.dataLocation).toBe('data/openscriptures-OHB');
+    expect(sourceInfo.cacheLocation).toBe('cache');
+  });
+});
+
+describe('loader backends', () => {
+  afterEach(() => {
+    useBackend(createNodeBackend());
+    vi.unstubAllGlobals();
+  });
+
+  it('loads JSON verse files from memory', async () => {
+    const files: Record<string, string> = {};
+    for (const verse of [1, 2]) {
+      const location = `data/openscriptures-OHB/Ruth/1/${verse}.json`;
+      files[location] = await readData(location);
+    }
+    useBackend(createMemoryBackend(files));
+
+    expect((await loadVerse('Ruth', 1, 2)).words.length).toBeGreaterThan(0);
+    expect(await loadChapter('Ruth', 1)).toHaveLength(2);
+    await expect(loadVerse('Ruth', 1, 3)).rejects.toThrow('not found');
+  });
+
+  it('lists verses from verseCounts when the backend cannot list', async () => {
+    const memory = createMemoryBackend({
+      'cache/verseCounts.json': JSON.stringify({ Ruth: [2] }),
+      'data/openscriptures-OHB/Ruth/1/1.json': await readData('data/openscriptures-OHB/Ruth/1/1.json'),
+      'data/openscriptures-OHB/Ruth/1/2.json': await readData('data/openscriptures-OHB/Ruth/1/2.json'),
+    });
+    const unlisted: LoaderBackend = { readText: memory.readText, readBytes: memory.readBytes };
+    useBackend(unlisted);
+
+    expect(await loadChapter('Ruth', 1)).toHaveLength(2);
+    await expect(loadChapter('Ruth', 2)).rejects.toThrow('not found');
+  });
+
+  it('reads packed books and caches over fetch with range requests', async () => {
+    const packed = new Uint8Array(await readFile(join(ROOT_DIR, 'data', 'openscriptures-OHB-packed', 'Ruth.jsonl')));
+    const requests: string[] = [];
+    vi.stubGlobal('fetch', async (url: URL, init: RequestInit) => {
+      const path = url.pathname.replace('/ohb/', '');
+      requests.push(path);
+      if (path === 'data/openscriptures-OHB-packed/Ruth.jsonl') {
+        const range = (init.headers as Record<string, string>).Range;
+        const [start, end] = range.replace('bytes=', '').split('-').map(Number);
+        return new Response(packed.subarray(start, end + 1), { status: 206 });
+      }
+      if (path === 'cache/verseCounts.json') {
+        return new Response(await readData(path));
+      }
+      return new Response('Not Found', { status: 404 });
+    });
+    const expected = await loadChapter('Ruth', 2);
+
+    useBackend(createFetchBackend('https://example.com/ohb'));
+    expect(await loadChapter('Ruth', 2)).toEqual(expected);
+    expect((await loadCache('verseCounts')).Ruth).toEqual([22, 23, 18, 22]);
+    expect(requests).toContain('data/openscriptures-OHB-packed/Ruth.jsonl');
+    await expect(loadCache('strongs')).rejects.toThrow("Cache 'strongs' not found");
+  });
+});
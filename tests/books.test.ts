@@ -0,0 +1,68 @@
+/**
+ * Tests for book name resolution
+ */
+
+import { describe, it, expect } from 'vitest';
+import { resolveBook, UnknownBookError } from '../src/books.js';
+import { loadVerse, loadChapter } from '../src/source.js';
+
+describe('resolveBook', () => {
+  it('accepts English names and OSIS IDs in any case', () => {
+    expect(resolveBook('Genesis')).toBe('Gen');
+    expect(resolveBook('Gen')).toBe('Gen');
+    expect(resolveBook('gen')).toBe('Gen');
+    expect(resolveBook('GENESIS')).toBe('Gen');
+    expect(resolveBook('1Sam')).toBe('1Sam');
+  });
+
+  it('accepts abbreviations and ordinals', () => {
+    expect(resolveBook('Gn')).toBe('Gen');
+    expect(resolveBook('1 Sm')).toBe('1Sam');
+    expect(resolveBook('1 Sam.')).toBe('1Sam');
+    expect(resolveBook('II Kings')).toBe('2Kgs');
+    expect(resolveBook('First Chronicles')).toBe('1Chr');
+    expect(resolveBook('Ps')).toBe('Ps');
+    expect(resolveBook('Psalm')).toBe('Ps');
+  });
+
+  it('accepts alternative English titles', () => {
+    expect(resolveBook('Song of Songs')).toBe('Song');
+    expect(resolveBook('Canticles')).toBe('Song');
+    expect(resolveBook('Qoheleth')).toBe('Eccl');
+  });
+
+  it('accepts Hebrew titles with or without points', () => {
+    expect(resolveBook('בראשית')).toBe('Gen');
+    expect(resolveBook('בְּרֵאשִׁית')).toBe('Gen');
+    expect(resolveBook('שמואל א')).toBe('1Sam');
+    expect(resolveBook('שיר השירים')).toBe('Song');
+  });
+
+  it('throws UnknownBookError with suggestions', () => {
+    try {
+      resolveBook('Genisis');
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(UnknownBookError);
+      expect((error as UnknownBookError).suggestions).toContain('Genesis');
+      expect((error as Error).message).toContain('Did you mean Genesis');
+    }
+  });
+
+  it('rejects books outside the Hebrew Bible', () => {
+    expect(() => resolveBook('Matthew')).toThrow(UnknownBookError);
+  });
+});
+
+describe('loaders resolve book names', () => {
+  it('loads verses by abbreviation and Hebrew title', async () => {
+    const expected = (await loadVerse('Genesis', 1, 1)).text;
+    expect((await loadVerse('Gn', 1, 1)).text).toBe(expected);
+    expect((await loadVerse('בראשית', 1, 1)).text).toBe(expected);
+    expect(await loadChapter('1 Sm', 1)).toHaveLength(28);
+  });
+
+  it('throws UnknownBookError rather than not found', async () => {
+    await expect(loadVerse('Genisis', 1, 1)).rejects.toThrow(UnknownBookError);
+  });
+});
@@ -0,0 +1,63 @@
+/**
+ * Tests for the prebuilt caches
+ */
+
+import { describe, it, expect } from 'vitest';
+import { CacheBuilder, isCacheName } from '../src/caches.js';
+import { loadCache, loadVerse } from '../src/source.js';
+import { segmentWord } from '../src/segments.js';
+import type { CacheName } from '../src/caches.js';
+
+describe('CacheBuilder', () => {
+  it('indexes Strong\'s numbers, stem lemmas, morph codes and verse counts', () => {
+    const builder = new CacheBuilder();
+    builder.add('Gen', 1, 1, [
+      { position: 1, text: '', lemma: 'b/7225', morph: 'HR/Ncfsa', strongs: ['H7225'], segments: segmentWord('b/7225', 'HR/Ncfsa') },
+      { position: 2, text: '', lemma: '1254 a', morph: 'HVqp3ms', strongs: ['H1254'], segments: segmentWord('1254 a', 'HVqp3ms') },
+    ]);
+    builder.add('Gen', 1, 2, []);
+    builder.add('Gen', 2, 1, [
+      { position: 1, text: '', lemma: '1254 a', morph: 'HVqp3ms', strongs: ['H1254'], segments: segmentWord('1254 a', 'HVqp3ms') },
+    ]);
+
+    const caches = builder.build();
+    expect(caches.strongs.H1254).toEqual(['Gen.1.1.2', 'Gen.2.1.1']);
+    expect(caches.lemmas).toEqual({ '7225': ['Gen.1.1.1'], '1254 a': ['Gen.1.1.2', 'Gen.2.1.1'] });
+    expect(caches.morphCodes).toEqual({ 'HR/Ncfsa': 1, HVqp3ms: 2 });
+    expect(caches.verseCounts).toEqual({ Gen: [2, 1] });
+  });
+});
+
+describe('loadCache', () => {
+  it('serves the prebuilt caches', async () => {
+    const verseCounts = await loadCache('verseCounts');
+    expect(verseCounts.Gen).toHaveLength(50);
+    expect(verseCounts.Gen[0]).toBe(31);
+    expect(verseCounts.Mal).toEqual([14, 17, 24]);
+
+    const strongs = await loadCache('strongs');
+    expect(strongs.H7225).toContain('Gen.1.1.1');
+
+    const morphCodes = await loadCache('morphCodes');
+    expect(morphCodes.HVqp3ms).toBeGreaterThan(1000);
+  });
+
+  it('points occurrences at the tagged words', async () => {
+    const lemmas = await loadCache('lemmas');
+    const [book, chapter, verse, position] = lemmas['1254 a'][0].split('.');
+    const data = await loadVerse(book, Number(chapter), Number(verse));
+    expect(data.words[Number(position) - 1].lemma).toContain('1254 a');
+  });
+
+  it('rejects unknown cache names', async () => {
+    expect(isCacheName('strongs')).toBe(true);
+    expect(isCacheName('gematria')).toBe(false);
+    await expect(loadCache('gematria' as CacheName)).rejects.toThrow("Cache 'gematria' not found");
+  });
+
+  it('accepts any cache name where a registry passes a string', async () => {
+    const registered: (cacheName: string) => Promise<unknown> = loadCache;
+    expect(await registered('verseCounts')).toHaveProperty('Ruth', [22, 23, 18, 22]);
+    await expect(registered('gematria')).rejects.toThrow("Cache 'gematria' not found");
+  });
+});
@@ -0,0 +1,45 @@
+/**
+ * Tests for the concordance API
+ */
+
+import { describe, it, expect } from 'vitest';
+import { findOccurrences, loadVerse } from '../src/source.js';
+
+describe('findOccurrences', () => {
+  it('finds every word tagged with a Strong\'s number', async () => {
+    const occurrences = await findOccurrences({ strongs: 'H430' });
+    expect(occurrences.length).toBeGreaterThan(2500);
+    expect(occurrences[0]).toEqual({ book: 'Gen', chapter: 1, verse: 1, position: 3 });
+    expect(await findOccurrences({ strongs: '430' })).toHaveLength(occurrences.length);
+  });
+
+  it('points at the matching words', async () => {
+    const [first] = await findOccurrences({ strongs: 'H7225', book: 'Jer' });
+    const verse = await loadVerse(first.book, first.chapter, first.verse);
+    expect(verse.words[first.position - 1].strongs).toContain('H7225');
+  });
+
+  it('treats homographs as one lemma unless asked to distinguish them', async () => {
+    const all = await findOccurrences({ lemma: '1254' });
+    const createOnly = await findOccurrences({ lemma: '1254 a', distinguishHomographs: true });
+    const fatten = await findOccurrences({ lemma: '1254 b', distinguishHomographs: true });
+
+    expect(all).toHaveLength(createOnly.length + fatten.length);
+    expect(fatten).toHaveLength(1);
+    expect(await findOccurrences({ lemma: '1254 a' })).toHaveLength(all.length);
+  });
+
+  it('filters by book and combines strongs with lemma', async () => {
+    const genesis = await findOccurrences({ strongs: 'H1254', book: 'Genesis' });
+    expect(genesis.every(o => o.book === 'Gen')).toBe(true);
+    expect(genesis.length).toBeGreaterThan(0);
+
+    const both = await findOccurrences({ strongs: 'H1254', lemma: '1254 b', distinguishHomographs: true });
+    expect(both).toHaveLength(1);
+  });
+
+  it('requires a strongs or lemma query', async () => {
+    await expect(findOccurrences({ book: 'Gen' })).rejects.toThrow('requires a strongs or lemma');
+    expect(await findOccurrences({ strongs: 'H99999' })).toEqual([]);
+  });
+});
@@ -0,0 +1,119 @@
+/**
+ * Tests for word-level diffs between data builds
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { spawnSync } from 'child_process';
+import { cp, mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { diffVerse, summarizeDiff } from '../src/diff.js';
+import type { OhbVerseData, WordEntry } from '../src/types.js';
+
+function word(position: number, text: string, lemma: string, morph = 'HNcmsa'): WordEntry {
+  return { position, text, lemma, morph, strongs: [`H${lemma}`] };
+}
+
+function verse(...words: WordEntry[]): OhbVerseData {
+  return { text: words.map(w => w.text).join(' '), words } as OhbVerseData;
+}
+
+const BEFORE = verse(word(1, 'א', '1'), word(2, 'ב', '2'), word(3, 'ג', '3'));
+
+describe('diffVerse', () => {
+  it('returns null for identical verses', () => {
+    expect(diffVerse('Gen', 1, 1, BEFORE, verse(...BEFORE.words))).toBeNull();
+  });
+
+  it('reports changed word fields', () => {
+    const after = verse(word(1, 'א', '1'), word(2, 'ב', '5', 'HVqp3ms'), word(3, 'ג', '3'));
+    expect(diffVerse('Gen', 1, 1, BEFORE, after)).toEqual({
+      book: 'Gen',
+      chapter: 1,
+      verse: 1,
+      change: 'changed',
+      words: [{
+        change: 'changed',
+        before: 2,
+        after: 2,
+        text: 'ב',
+        fields: {
+          lemma: { before: '2', after: '5' },
+          morph: { before: 'HNcmsa', after: 'HVqp3ms' },
+          strongs: { before: ['H2'], after: ['H5'] },
+        },
+      }],
+    });
+  });
+
+  it('aligns words around an inserted word', () => {
+    const after = verse(word(1, 'א', '1'), word(2, 'ד', '4'), word(3, 'ב', '2'), word(4, 'ג', '3'));
+    const diff = diffVerse('Gen', 1, 1, BEFORE, after)!;
+    expect(diff.words).toEqual([{ change: 'added', after: 2, text: 'ד' }]);
+    expect(diff.text).toEqual({ before: 'א ב ג', after: 'א ד ב ג' });
+  });
+
+  it('compares a word whose text changed instead of removing and adding it', () => {
+    const after = verse(word(1, 'א', '1'), word(2, 'בּ', '2'), word(3, 'ג', '3'));
+    const diff = diffVerse('Gen', 1, 1, BEFORE, after)!;
+    expect(diff.words).toEqual([
+      { change: 'changed', before: 2, after: 2, text: 'בּ', fields: { text: { before: 'ב', after: 'בּ' } } },
+    ]);
+  });
+
+  it('reports added and removed verses', () => {
+    expect(diffVerse('Gen', 1, 1, undefined, BEFORE)).toMatchObject({
+      change: 'added',
+      text: { before: null, after: 'א ב ג' },
+    });
+    expect(diffVerse('Gen', 1, 1, BEFORE, undefined)).toMatchObject({ change: 'removed' });
+  });
+
+  it('counts changes by kind and field', () => {
+    const changed = diffVerse('Gen', 1, 1, BEFORE, verse(word(1, 'א', '7'), word(2, 'ב', '2')))!;
+    const added = diffVerse('Gen', 1, 2, undefined, BEFORE)!;
+    expect(summarizeDiff([changed, added])).toEqual({
+      verses: { added: 1, removed: 0, changed: 1 },
+      words: { added: 0, removed: 1, changed: 1 },
+      fields: { text: 0, lemma: 1, morph: 0, strongs: 1, variant: 0 },
+    });
+  });
+});
+
+describe('diff command', () => {
+  let dir: string;
+
+  beforeAll(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'ohb-diff-'));
+    await cp(join('data', 'openscriptures-OHB', 'Ruth'), join(dir, 'Ruth'), { recursive: true });
+    const path = join(dir, 'Ruth', '1', '1.json');
+    const data = JSON.parse(await readFile(path, 'utf-8'));
+    data.words[0].morph = 'HC/Vqw3fs';
+    await writeFile(path, JSON.stringify(data), 'utf-8');
+    await rm(join(dir, 'Ruth', '4', '22.json'));
+  });
+
+  afterAll(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('compares a JSON build with a packed build', () => {
+    const result = spawnSync(
+      join('node_modules', '.bin', 'tsx'),
+      ['scripts/diff.ts', join('data', 'openscriptures-OHB-packed'), dir, '--books', 'Ruth', '--json', '-'],
+      { encoding: 'utf-8', timeout: 60_000 }
+    );
+    expect(result.status).toBe(0);
+
+    const report = JSON.parse(result.stdout);
+    expect(report.summary).toMatchObject({
+      verses: { added: 0, removed: 1, changed: 1 },
+      fields: { morph: 1, lemma: 0 },
+    });
+    expect(report.verses.map((v: { chapter: number; verse: number }) => `${v.chapter}:${v.verse}`)).toEqual([
+      '1:1',
+      '4:22',
+    ]);
+    expect(report.verses[0].words[0].fields.morph.after).toBe('HC/Vqw3fs');
+  });
+});
@@ -0,0 +1,143 @@
+/**
+ * Verses as MorphHB marks them up, for tests that should not depend on which
+ * revision the bundled data was imported from.
+ */
+
+import { createMemoryBackend } from '../../src/backends.js';
+import { createSource } from '../../src/source.js';
+import { OsisParser, toVerseData } from '../../scripts/osis-parser.js';
+import type { OhbSource } from '../../src/source.js';
+
+// Gen 1:1 and 1:4-6: sof pasuq, maqqef, paseq and a petuchah after 1:5
+export const GEN_1_XML = `<chapter osisID="Gen.1">
+  <verse osisID="Gen.1.1">
+    <w lemma="b/7225" n="1.0" morph="HR/Ncfsa" id="01xeN">בְּ/רֵאשִׁ֖ית</w>
+    <w lemma="1254 a" morph="HVqp3ms" id="01Nvk">בָּרָ֣א</w>
+    <w lemma="430" n="1" morph="HNcmpa" id="01TyA">אֱלֹהִ֑ים</w>
+    <w lemma="853" morph="HTo" id="01vuQ">אֵ֥ת</w>
+    <w lemma="d/8064" n="0.0" morph="HTd/Ncmpa" id="01TSc">הַ/שָּׁמַ֖יִם</w>
+    <w lemma="c/853" morph="HC/To" id="01k5P">וְ/אֵ֥ת</w>
+    <w lemma="d/776" n="0" morph="HTd/Ncbsa" id="01nPh">הָ/אָֽרֶץ</w><seg type="x-sof-pasuq">׃</seg>
+  </verse>
+  <verse osisID="Gen.1.4">
+    <w lemma="c/7200" morph="HC/Vqw3ms" id="01USR">וַ/יַּ֧רְא</w>
+    <w lemma="430" n="1.0.0" morph="HNcmpa" id="01v6U">אֱלֹהִ֛ים</w>
+    <w lemma="853" morph="HTo" id="015SS">אֶת</w><seg type="x-maqqef">־</seg><w lemma="d/216" n="1.0" morph="HTd/Ncbsa" id="01GzE">הָ/א֖וֹר</w>
+    <w lemma="3588 a" morph="HC" id="01qCU">כִּי</w><seg type="x-maqqef">־</seg><w lemma="2896 a" n="1" morph="HAamsa" id="01g2y">ט֑וֹב</w>
+    <w lemma="c/914" morph="HC/Vhw3ms" id="01jQb">וַ/יַּבְדֵּ֣ל</w>
+    <w lemma="430" n="0.1" morph="HNcmpa" id="01794">אֱלֹהִ֔ים</w>
+    <w lemma="996" morph="HR" id="01CsU">בֵּ֥ין</w>
+    <w lemma="d/216" n="0.0" morph="HTd/Ncbsa" id="01XR4">הָ/א֖וֹר</w>
+    <w lemma="c/996" morph="HC/R" id="01KvS">וּ/בֵ֥ין</w>
+    <w lemma="d/2822" n="0" morph="HTd/Ncmsa" id="01dBc">הַ/חֹֽשֶׁךְ</w><seg type="x-sof-pasuq">׃</seg>
+  </verse>
+  <verse osisID="Gen.1.5">
+    <w lemma="c/7121" morph="HC/Vqw3ms" id="01nAB">וַ/יִּקְרָ֨א</w>
+    <w lemma="430" morph="HNcmpa" id="01kfX">אֱלֹהִ֤ים</w>
+    <seg type="x-paseq">׀</seg>
+    <w lemma="l/216" n="1.1.0" morph="HRd/Ncbsa" id="01Wkf">לָ/אוֹר֙</w>
+    <w lemma="3117" n="1.1" morph="HNcmsa" id="01wrL">י֔וֹם</w>
+    <w lemma="c/l/2822" n="1.0" morph="HC/Rd/Ncmsa" id="013TL">וְ/לַ/חֹ֖שֶׁךְ</w>
+    <w lemma="7121" morph="HVqp3ms" id="01LeN">קָ֣רָא</w>
+    <w lemma="3915" n="1" morph="HNcmsa" id="01sMn">לָ֑יְלָה</w>
+    <w lemma="c/1961" morph="HC/Vqw3ms" id="01Y3z">וַֽ/יְהִי</w><seg type="x-maqqef">־</seg><w lemma="6153" morph="HNcmsa" id="01NQN">עֶ֥רֶב</w>
+    <w lemma="c/1961" morph="HC/Vqw3ms" id="01uLf">וַֽ/יְהִי</w><seg type="x-maqqef">־</seg><w lemma="1242" n="0.0" morph="HNcmsa" id="01kA7">בֹ֖קֶר</w>
+    <w lemma="3117" morph="HNcmsa" id="013TS">י֥וֹם</w>
+    <w lemma="259" n="0" morph="HAcmsa" id="01NFp">אֶחָֽד</w><seg type="x-sof-pasuq">׃</seg>
+    <seg type="x-pe">פ</seg>
+  </verse>
+  <verse osisID="Gen.1.6">
+    <w lemma="c/559" morph="HC/Vqw3ms" id="017am">וַ/יֹּ֣אמֶר</w>
+    <w lemma="430" n="1.1" morph="HNcmpa" id="01hh7">אֱלֹהִ֔ים</w>
+    <w lemma="1961" morph="HVqj3ms" id="01BsK">יְהִ֥י</w>
+    <w lemma="7549" n="1.0" morph="HNcmsa" id="01fsu">רָקִ֖יעַ</w>
+    <w lemma="b/8432" morph="HR/Ncmsc" id="018M6">בְּ/ת֣וֹךְ</w>
+    <w lemma="d/4325" n="1" morph="HTd/Ncmpa" id="01wM5">הַ/מָּ֑יִם</w>
+    <w lemma="c/1961" morph="HC/Vqi3ms" id="01qty">וִ/יהִ֣י</w>
+    <w lemma="914" n="0.1" morph="HVhrmsa" id="015gQ">מַבְדִּ֔יל</w>
+    <w lemma="996" morph="HR" id="01Xw6">בֵּ֥ין</w>
+    <w lemma="4325" n="0.0" morph="HNcmpa" id="01eHJ">מַ֖יִם</w>
+    <w lemma="l/4325" n="0" morph="HR/Ncmpa" id="01H6L">לָ/מָֽיִם</w><seg type="x-sof-pasuq">׃</seg>
+  </verse>
+</chapter>`;
+
+// Exod 20:2-3: alternative accents and a prose note
+export const EXOD_20_XML = `<chapter osisID="Exod.20">
+  <verse osisID="Exod.20.2">
+    <w lemma="595" n="1.0" morph="HPp1cs" id="02Aby">אָֽנֹכִ֖י</w><note type="alternative"><catchWord>אָֽנֹכִ֖י</catchWord><rdg type="x-accent">אָֽנֹכִי֙</rdg></note>
+    <w lemma="3068" morph="HNp" id="02dEB">יְהוָ֣ה</w>
+    <w lemma="430" n="1" morph="HNcmpc/Sp2ms" id="02fQk">אֱלֹהֶ֑י/ךָ</w><note type="alternative"><catchWord>אֱלֹהֶ֑י/ךָ</catchWord><rdg type="x-accent">אֱלֹהֶ֔י/ךָ</rdg></note>
+    <w lemma="834 a" morph="HTr" id="02bgn">אֲשֶׁ֧ר</w>
+    <w lemma="3318" n="0.0.0" morph="HVhp1cs/Sp2ms" id="02TM2">הוֹצֵאתִ֛י/ךָ</w>
+    <w lemma="m/776" morph="HR/Ncbsc" id="02k7d">מֵ/אֶ֥רֶץ</w>
+    <w lemma="4714" n="0.0" morph="HNp" id="02WXj">מִצְרַ֖יִם</w>
+    <w lemma="m/1004 b" morph="HR/Ncmsc" id="02Dkb">מִ/בֵּ֥ית</w><note type="alternative"><catchWord>מִ/בֵּ֥ית</catchWord><rdg type="x-accent">מִ/בֵּ֣ית</rdg></note>
+    <w lemma="5650" n="0" morph="HNcmpa" id="02JBA">עֲבָדִֽים</w><note type="alternative"><catchWord>עֲבָדִֽים</catchWord><rdg type="x-accent">עֲבָדִ֑ים</rdg></note><seg type="x-sof-pasuq">׃</seg>
+  </verse>
+  <verse osisID="Exod.20.3">
+    <w lemma="3808" morph="HTn" id="02ZFp">לֹֽ֣א</w>
+    <w lemma="1961" morph="HVqi3ms" id="02jzs">יִהְיֶֽה</w><seg type="x-maqqef">־</seg><w lemma="l" n="0.0.0" morph="HR/Sp2ms" id="02SJc">לְ/ךָ֛</w><note type="alternative"><catchWord>לְ/ךָ֛</catchWord><rdg type="x-accent">לְ/ךָ֩</rdg></note>
+    <note n="1">BHS has been faithful to the Leningrad Codex where there might be a question of the validity of the form and we keep the same form as BHS. </note>
+    <w lemma="430" morph="HNcmpa" id="02drC">אֱלֹהִ֥ים</w><note type="alternative"><catchWord>אֱלֹהִ֥ים</catchWord><rdg type="x-accent">אֱלֹהִ֨ים</rdg></note>
+    <w lemma="312" n="0.0" morph="HAampa" id="02UiC">אֲחֵרִ֖ים</w><note type="alternative"><catchWord>אֲחֵרִ֖ים</catchWord><rdg type="x-accent">אֲחֵרִ֜ים</rdg></note>
+    <w lemma="5921 a" morph="HR" id="02qKv">עַל</w><seg type="x-maqqef">־</seg><w lemma="6440" n="0" morph="HNcbpc/Sp1cs" id="02CuC">פָּנָֽ/יַ</w><note type="alternative"><catchWord>פָּנָֽ/יַ</catchWord><rdg type="x-accent">פָּנָ֗/יַ</rdg></note><seg type="x-sof-pasuq">׃</seg>
+    <note n="1">BHS has been faithful to the Leningrad Codex where there might be a question of the validity of the form and we keep the same form as BHS. </note>
+  </verse>
+</chapter>`;
+
+// Ezra 4:12 and Jer 6:26: morph codes ending in a stray "/"
+export const EZRA_4_12_XML = `<chapter osisID="Ezra.4">
+  <verse osisID="Ezra.4.12">
+    <w lemma="3046" n="1.2.0" morph="AVQsmsa" id="1576o">יְדִ֨יעַ֙</w>
+    <w lemma="1934" morph="AVqi3ms" id="15omx">לֶהֱוֵ֣א</w>
+    <w lemma="l/4430" n="1.2" morph="AR/Ncmsd/Td" id="15XBe">לְ/מַלְכָּ֔/א</w>
+    <w lemma="1768" morph="ATr" id="158A2">דִּ֣י</w>
+    <w lemma="3062" n="1.1.1" morph="ANgmpd/Td" id="153Qm">יְהוּדָיֵ֗/א</w>
+    <w lemma="1768" morph="ATr" id="15yeG">דִּ֤י</w>
+    <w lemma="5559" n="1.1.0" morph="AVqp3mp" id="151NW">סְלִ֨קוּ֙</w>
+    <w lemma="4481" morph="AR" id="15f13">מִן</w><seg type="x-maqqef">־</seg><w lemma="3890" n="1.1" morph="AR/Sp2ms" id="155on">לְוָתָ֔/ךְ</w>
+    <w lemma="5922" morph="AR/Sp1cp" id="15b2J">עֲלֶ֥י/נָא</w>
+    <w lemma="858" n="1.0" morph="AVqp3mp" id="15MnD">אֲת֖וֹ</w>
+    <w lemma="l/3390" n="1" morph="AR/Np" id="152B3">לִ/ירוּשְׁלֶ֑ם</w>
+    <w lemma="7149" morph="ANcfsd/Td" id="15eAA">קִרְיְתָ֨/א</w>
+    <w lemma="4779" morph="AAafsd/Td" id="15usA">מָֽרָדְתָּ֤/א</w>
+    <w lemma="c/873" morph="AC/Aafsd/Td" id="15bmL">ו/באישת/א</w><note type="variant"><catchWord>ו/באישת/א</catchWord><rdg type="x-qere"><w lemma="c/873" n="0.2.0" morph="AC/Aafsd/Td" id="15DK9">וּ/בִֽישְׁתָּ/א֙</w></rdg></note>
+    <note n="y">Yathir readings in L which we have designated as Qeres when both Dothan and BHS list a Qere. </note>
+    <w lemma="1124" n="0.2" morph="AVqrmpa" id="157vQ">בָּנַ֔יִן</w>
+    <w lemma="c/7792" morph="AC/Ncmpc/" id="15JoL">ו/שורי/</w><note type="variant"><catchWord>ו/שורי/</catchWord><rdg type="x-qere"><w lemma="c/7792" morph="AC/Ncmpd/Td" id="15Zzg">וְ/שׁוּרַיָּ֣/א</w></rdg></note>
+    <w lemma="3635 a" morph="AVvi3mp" id="15k3m">אשכללו</w><note type="variant"><catchWord>אשכללו</catchWord><rdg type="x-qere"><w lemma="3635 a" n="0.1" morph="AVep3mp" id="15Q2N">שַׁכְלִ֔ילוּ</w></rdg></note>
+    <w lemma="c/787" n="0.0" morph="AC/Ncmpd/Td" id="15Ggr">וְ/אֻשַּׁיָּ֖/א</w>
+    <w lemma="2338" n="0" morph="AVai3mp" id="15hnA">יַחִֽיטוּ</w><seg type="x-sof-pasuq">׃</seg>
+  </verse>
+</chapter>`;
+
+export const JER_6_26_XML = `<chapter osisID="Jer.6">
+  <verse osisID="Jer.6.26">
+    <w lemma="1323" morph="HNcfsc" id="24JPF">בַּת</w><seg type="x-maqqef">־</seg><w lemma="5971 a" morph="HNcmsc/Sp1cs" id="24t2f">עַמִּ֤/י</w>
+    <w lemma="2296" morph="HVqv2fs" id="24AAs">חִגְרִי</w><seg type="x-maqqef">־</seg><w lemma="8242" n="1.2.0" morph="HNcmsa" id="24yit">שָׂק֙</w>
+    <w lemma="c/6428" morph="HVtv2fs/" id="24wBS">וְ/הִתְפַּלְּשִׁ֣י</w>
+    <w lemma="b/665" n="1.2" morph="HRd/Ncmsa" id="242sV">בָ/אֵ֔פֶר</w>
+    <w lemma="60" morph="HNcmsa" id="24FwG">אֵ֤בֶל</w>
+    <w lemma="3173" n="1.1.0" morph="HAamsa" id="24dCM">יָחִיד֙</w>
+    <w lemma="6213 a" morph="HVqv2fs" id="24H1T">עֲשִׂ֣י</w>
+    <w lemma="l" n="1.1" morph="HR/Sp2fs" id="24P6r">לָ֔/ךְ</w>
+    <w lemma="4553" n="1.0" morph="HNcmsc" id="24tD1">מִסְפַּ֖ד</w>
+    <w lemma="8563" n="1" morph="HNcmpa" id="246AA">תַּמְרוּרִ֑ים</w>
+    <w lemma="3588 a" morph="HC" id="24RNc">כִּ֣י</w>
+    <w lemma="6597" n="0.1" morph="HD" id="24veg">פִתְאֹ֔ם</w>
+    <w lemma="935" morph="HVqi3ms" id="247W8">יָבֹ֥א</w>
+    <w lemma="d/7703" n="0.0" morph="HTd/Vqrmsa" id="24zSa">הַ/שֹּׁדֵ֖ד</w>
+    <w lemma="5921 a" n="0" morph="HR/Sp1cp" id="24BQz">עָלֵֽי/נוּ</w><seg type="x-sof-pasuq">׃</seg>
+  </verse>
+</chapter>`;
+
+/**
+ * A source serving the verses of `xml` as the importer would store them.
+ */
+export function importedSource(xml: string): OhbSource {
+  const files: Record<string, string> = {};
+  for (const verse of new OsisParser().parse(xml)) {
+    files[`data/openscriptures-OHB/${verse.book}/${verse.chapter}/${verse.number}.json`] = JSON.stringify(toVerseData(verse));
+  }
+  return createSource({ backend: createMemoryBackend(files) });
+}
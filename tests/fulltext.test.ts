@@ -0,0 +1,104 @@
+/**
+ * Tests for Hebrew normalization and full-text search
+ */
+
+import { describe, it, expect } from 'vitest';
+import { normalizeHebrew, removeCantillation } from '../src/text.js';
+import { matchTextQuery, parseTextQuery } from '../src/fulltext.js';
+import { loadVerse, searchText } from '../src/source.js';
+import type { WordEntry } from '../src/types.js';
+
+const BERESHIT = 'בְּרֵאשִׁ֖ית';
+
+function words(...texts: string[]): WordEntry[] {
+  return texts.map((text, i) => ({ position: i + 1, text, lemma: null, morph: null }));
+}
+
+describe('normalizeHebrew', () => {
+  it('strips progressively more pointing', () => {
+    expect(normalizeHebrew(BERESHIT, 'exact')).toBe(BERESHIT.normalize('NFC'));
+    expect(normalizeHebrew(BERESHIT, 'noCantillation')).toBe(removeCantillation(BERESHIT.normalize('NFC')));
+    expect(normalizeHebrew(BERESHIT, 'noCantillation')).not.toContain('֖');
+    expect(normalizeHebrew(BERESHIT, 'consonants')).toBe('בראשית');
+    expect(normalizeHebrew('ארץ', 'ignoreFinalForms')).toBe('ארצ');
+  });
+});
+
+describe('parseTextQuery', () => {
+  it('parses terms, phrases and proximity', () => {
+    const query = parseTextQuery('"ברא אלהים" משה NEAR/3 אהרן', 'consonants');
+    expect(query.clauses).toHaveLength(2);
+    expect(query.clauses[0].operands[0]).toHaveLength(2);
+    expect(query.clauses[1].distances).toEqual([3]);
+  });
+
+  it('rejects misplaced operators and empty terms', () => {
+    expect(() => parseTextQuery('', 'consonants')).toThrow('Invalid search query');
+    expect(() => parseTextQuery('NEAR/2 משה', 'consonants')).toThrow('Invalid search query');
+    expect(() => parseTextQuery('משה NEAR/2', 'consonants')).toThrow('Invalid search query');
+    expect(() => parseTextQuery('moses', 'consonants')).toThrow('has no Hebrew letters');
+  });
+});
+
+describe('matchTextQuery', () => {
+  const verse = words('וַיֹּאמֶר', 'מֹשֶׁה', 'אֶל', 'אַהֲרֹן', 'הָאָרֶץ');
+
+  it('returns the positions of every matched word', () => {
+    expect(matchTextQuery(verse, parseTextQuery('"משה אל" ארץ', 'consonants'))).toBeNull();
+    expect(matchTextQuery(verse, parseTextQuery('"משה אל" *ארץ', 'consonants'))).toEqual([2, 3, 5]);
+  });
+
+  it('applies proximity in either order', () => {
+    expect(matchTextQuery(verse, parseTextQuery('אהרן NEAR/2 משה', 'consonants'))).toEqual([2, 4]);
+    expect(matchTextQuery(verse, parseTextQuery('אהרן NEAR/1 משה', 'consonants'))).toBeNull();
+  });
+
+  it('skips ketiv words in phrases', () => {
+    const variant = [
+      ...words('נַעֲרָ'),
+      { position: 2, text: 'נערה', lemma: null, morph: null, variant: 'ketiv' as const },
+      { position: 3, text: 'נַעֲרָה', lemma: null, morph: null, variant: 'qere' as const },
+    ];
+    expect(matchTextQuery(variant, parseTextQuery('"נער נערה"', 'consonants'))).toEqual([1, 3]);
+  });
+
+  it('reads qere words in place of their ketiv when stored after the verse', () => {
+    const variant = [
+      ...words('אֶת'),
+      { position: 2, text: 'לודיים', lemma: null, morph: null, variant: 'ketiv' as const },
+      { position: 3, text: 'וְאֶת', lemma: null, morph: null },
+      { position: 4, text: 'נַפְתֻּחִים', lemma: null, morph: null },
+      { position: 5, text: 'לוּדִים', lemma: null, morph: null, variant: 'qere' as const },
+    ];
+    expect(matchTextQuery(variant, parseTextQuery('"את לודים ואת"', 'consonants'))).toEqual([1, 3, 5]);
+    expect(matchTextQuery(variant, parseTextQuery('"נפתחים לודים"', 'consonants'))).toBeNull();
+  });
+});
+
+describe('searchText', () => {
+  it('finds consonantal forms in pointed text', async () => {
+    const hits = await searchText('בראשית', { book: 'Genesis' });
+    expect(hits[0]).toEqual({ book: 'Gen', chapter: 1, verse: 1, positions: [1] });
+    expect(await searchText('בראשית', { book: 'Genesis', normalization: 'exact' })).toEqual([]);
+  });
+
+  it('matches exact forms including cantillation', async () => {
+    const verse = await loadVerse('Genesis', 1, 1);
+    const hits = await searchText(verse.words[0].text, { range: 'Gen 1', normalization: 'exact' });
+    expect(hits.map(h => h.verse)).toEqual([1]);
+  });
+
+  it('maps phrase hits to word positions', async () => {
+    const hits = await searchText('"ברא אלהים"', { range: 'Gen 1:1-5' });
+    expect(hits).toEqual([{ book: 'Gen', chapter: 1, verse: 1, positions: [2, 3] }]);
+  });
+
+  it('follows the qere through a ketiv/qere verse', async () => {
+    // 1Chr 1:11 writes לודיים and reads לוּדִ֧ים, stored after the verse
+    expect(await searchText('"את לודים ואת"', { range: '1Chr 1' })).toEqual([
+      { book: '1Chr', chapter: 1, verse: 11, positions: [3, 5, 11] },
+    ]);
+    expect(await searchText('"את לודיים"', { range: '1Chr 1' })).toEqual([]);
+    expect(await searchText('"נפתחים לודים"', { range: '1Chr 1' })).toEqual([]);
+  });
+});
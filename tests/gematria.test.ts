@@ -0,0 +1,68 @@
+/**
+ * Tests for gematria values and lookup
+ */
+
+import { describe, it, expect } from 'vitest';
+import { computeGematria, verseGematria } from '../src/gematria.js';
+import { findByGematria, loadVerse } from '../src/source.js';
+import type { WordEntry } from '../src/types.js';
+
+describe('computeGematria', () => {
+  it('counts letters by each method, ignoring pointing', () => {
+    expect(computeGematria('בְּרֵאשִׁ֖ית')).toEqual({ standard: 913, ordinal: 76, reduced: 13, finalForms: 913 });
+    expect(computeGematria('אבגדהוזחטיכלמנסעפצקרשת')).toEqual({
+      standard: 1495,
+      ordinal: 253,
+      reduced: 100,
+      finalForms: 1495,
+    });
+  });
+
+  it('counts final letters as their regular forms except in mispar gadol', () => {
+    expect(computeGematria('ךםןףץ')).toEqual({ standard: 280, ordinal: 73, reduced: 28, finalForms: 3500 });
+    expect(computeGematria('אֱלֹהִים').standard).toBe(86);
+    expect(computeGematria('אֱלֹהִים').finalForms).toBe(646);
+  });
+
+  it('totals verses without qere words', () => {
+    const words: WordEntry[] = [
+      { position: 1, text: 'הוצא', variant: 'ketiv' },
+      { position: 2, text: 'הַיְצֵא', variant: 'qere' },
+    ];
+    expect(verseGematria(words).standard).toBe(102);
+  });
+});
+
+describe('loaded gematria', () => {
+  it('adds word and verse values to loaded verses', async () => {
+    const verse = await loadVerse('Gen', 1, 1);
+    expect(verse.gematria!.standard).toBe(2701);
+    expect(verse.words[0].gematria).toEqual(computeGematria(verse.words[0].text));
+  });
+
+  it('totals the chosen reading of Qere/Ketiv verses', async () => {
+    const both = await loadVerse('Gen', 8, 17);
+    const qere = await loadVerse('Gen', 8, 17, { reading: 'qere' });
+    const [written, read] = both.words.filter((w: WordEntry) => w.variant);
+    expect(qere.gematria!.standard).toBe(both.gematria!.standard - written.gematria!.standard + read.gematria!.standard);
+  });
+});
+
+describe('findByGematria', () => {
+  it('finds words by value', async () => {
+    const matches = await findByGematria(913, { book: 'Genesis' });
+    expect(matches[0]).toEqual({ book: 'Gen', chapter: 1, verse: 1, positions: [1] });
+  });
+
+  it('finds verses by their total, using any method', async () => {
+    const matches = await findByGematria(2701, { unit: 'verse', range: 'Gen 1' });
+    expect(matches).toEqual([{ book: 'Gen', chapter: 1, verse: 1, positions: [1, 2, 3, 4, 5, 6, 7] }]);
+
+    const ordinal = await findByGematria(298, { unit: 'verse', method: 'ordinal', range: 'Gen 1' });
+    expect(ordinal.map(m => m.verse)).toContain(1);
+  });
+
+  it('rejects unknown methods', async () => {
+    await expect(findByGematria(1, { method: 'atbash' as never })).rejects.toThrow("Unknown gematria method 'atbash'");
+  });
+});
@@ -0,0 +1,89 @@
+/**
+ * Tests for the importer's resume manifest and unchanged-file detection
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, readFile, rm, stat, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ImportManifest, writeIfChanged } from '../scripts/import-manifest.js';
+
+describe('import manifest', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'ohb-manifest-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('starts empty when there is no manifest', async () => {
+    const manifest = await ImportManifest.open(join(dir, 'manifest.json'));
+    expect(manifest.get('Gen')).toBeUndefined();
+    expect(manifest.isComplete('Gen', 'v2.2', 'abc')).toBe(false);
+  });
+
+  it('resumes books imported from the same revision and XML', async () => {
+    const path = join(dir, 'source', 'manifest.json');
+    const manifest = await ImportManifest.open(path);
+    await Promise.all([
+      manifest.update('Gen', { status: 'done', revision: 'v2.2', sha256: 'abc', verses: 1533 }),
+      manifest.update('Exod', { status: 'failed', revision: 'v2.2', sha256: 'def', verses: 0, error: 'Bad XML' }),
+    ]);
+
+    const reopened = await ImportManifest.open(path);
+    expect(reopened.isComplete('Gen', 'v2.2', 'abc')).toBe(true);
+    expect(reopened.isComplete('Gen', 'v2.2', 'changed')).toBe(false);
+    expect(reopened.isComplete('Gen', 'master', 'abc')).toBe(false);
+    expect(reopened.isComplete('Exod', 'v2.2', 'def')).toBe(false);
+    expect(reopened.get('Exod')?.error).toBe('Bad XML');
+  });
+
+  it('keeps saving after a failed save', async () => {
+    const blocker = join(dir, 'source');
+    const path = join(blocker, 'manifest.json');
+    await writeFile(blocker, '', 'utf-8');
+    const manifest = await ImportManifest.open(path);
+
+    await expect(manifest.update('Gen', { status: 'done', revision: 'v2.2', sha256: 'abc', verses: 1533 })).rejects.toThrow();
+    await rm(blocker);
+    await manifest.update('Exod', { status: 'done', revision: 'v2.2', sha256: 'def', verses: 1213 });
+
+    const reopened = await ImportManifest.open(path);
+    expect(reopened.isComplete('Gen', 'v2.2', 'abc')).toBe(true);
+    expect(reopened.isComplete('Exod', 'v2.2', 'def')).toBe(true);
+  });
+
+  it('ignores manifests from another version', async () => {
+    const path = join(dir, 'manifest.json');
+    await writeFile(path, JSON.stringify({ version: 0, books: { Gen: { status: 'done' } } }), 'utf-8');
+    expect((await ImportManifest.open(path)).get('Gen')).toBeUndefined();
+  });
+});
+
+describe('writeIfChanged', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'ohb-write-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('writes new and changed files and leaves unchanged ones alone', async () => {
+    const path = join(dir, 'Ruth', '1', '1.json');
+    expect(await writeIfChanged(path, '{"a":1}')).toBe(true);
+    const { mtimeMs } = await stat(path);
+
+    await new Promise(resolve => setTimeout(resolve, 20));
+    expect(await writeIfChanged(path, '{"a":1}')).toBe(false);
+    expect((await stat(path)).mtimeMs).toBe(mtimeMs);
+
+    expect(await writeIfChanged(path, '{"a":2}')).toBe(true);
+    expect(await readFile(path, 'utf-8')).toBe('{"a":2}');
+  });
+});
@@ -1,378 +1,22 @@
 /**
- * Tests for the import script parsing logic
+ * Tests for the import script's OSIS parser
  *
  * These tests verify that:
- * 1. The current data has null lemmas (documenting the bug)
- * 2. The parsing logic correctly handles ketiv/qere variants
+ * 1. The current data has no null lemmas
+ * 2. The parser correctly handles ketiv/qere variants
  * 3. Alternative accent notes don't create duplicate words
  */
 
 import { describe, it, expect } from 'vitest';
-import { XMLParser } from 'fast-xml-parser';
 import { readFile } from 'fs/promises';
 import { join, dirname } from 'path';
 import { fileURLToPath } from 'url';
+import { OsisParser, toVerseData } from '../scripts/osis-parser.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 
-// Simplified types for testing
-interface WordEntry {
-  position: number;
-  text: string;
-  lemma: string | null;
-  morph: string | null;
-  strongs?: string[];
-  metadata?: Record<string, unknown>;
-}
-
-interface ParsedVerse {
-  book: string;
-  chapter: number;
-  number: number;
-  text: string;
-  words: WordEntry[];
-}
-
-// Hebrew maqqef character (U+05BE)
-const MAQQEF = '\u05BE';
-
-function removeCantillation(text: string): string {
-  return text.replace(/[\u0591-\u05AF\u05BD\u05BF\u05C0\u05C3\u05C6]/g, '');
-}
-
-const STRONGS_RE = /(?:strongs?:)?([HGhg]?\d{1,5})/g;
-
-function extractStrongs(value: string | null): string[] {
-  if (!value) return [];
-  const results: string[] = [];
-  let match;
-  STRONGS_RE.lastIndex = 0;
-  while ((match = STRONGS_RE.exec(value)) !== null) {
-    const token = match[1];
-    let prefix = '';
-    if (token[0] && 'HGhg'.includes(token[0])) {
-      prefix = token[0].toUpperCase();
-    }
-    const digits = token.match(/\d{1,5}/);
-    if (!digits) continue;
-    if (!prefix) prefix = 'H';
-    results.push(`${prefix}${parseInt(digits[0], 10)}`);
-  }
-  return results;
-}
-
-/**
- * OLD BROKEN LOGIC - for comparison testing
- * This is how the parser worked BEFORE the fix
- */
-function parseOsisBroken(xml: string): ParsedVerse[] {
-  const parser = new XMLParser({
-    ignoreAttributes: false,
-    attributeNamePrefix: '@_',
-    textNodeName: '#text',
-    preserveOrder: false,
-    trimValues: false,
-  });
-
-  const doc = parser.parse(xml);
-  const verses: ParsedVerse[] = [];
-
-  function findVerses(obj: unknown, results: ParsedVerse[]): void {
-    if (!obj || typeof obj !== 'object') return;
-
-    if (Array.isArray(obj)) {
-      for (const item of obj) {
-        findVerses(item, results);
-      }
-      return;
-    }
-
-    const record = obj as Record<string, unknown>;
-
-    if (record['@_osisID'] && typeof record['@_osisID'] === 'string') {
-      const osisId = record['@_osisID'];
-      const parts = osisId.split('.');
-      if (parts.length === 3) {
-        const [book, chap, num] = parts;
-        const words: WordEntry[] = [];
-        let pos = 1;
-
-        function extractWords(content: unknown): void {
-          if (!content) return;
-
-          if (typeof content === 'string') {
-            const cleanText = removeCantillation(content.replace(/\//g, '').trim());
-            if (cleanText) {
-              for (const word of cleanText.split(/\s+/).filter(Boolean)) {
-                if (word === MAQQEF) continue;
-                words.push({
-                  position: pos++,
-                  text: word,
-                  lemma: null,
-                  morph: null,
-                });
-              }
-            }
-            return;
-          }
-
-          if (Array.isArray(content)) {
-            for (const item of content) {
-              extractWords(item);
-            }
-            return;
-          }
-
-          if (typeof content === 'object') {
-            const elem = content as Record<string, unknown>;
-
-            if (elem['#text']) {
-              // OLD BUG: Skip ALL elements with @_type, including x-ketiv
-              if (elem['@_type']) {
-                return;
-              }
-
-              const rawText = String(elem['#text']);
-              const text = removeCantillation(rawText.replace(/\//g, '')).trim();
-              const lemma = elem['@_lemma'] as string | undefined;
-              const morph = elem['@_morph'] as string | undefined;
-
-              if (text) {
-                const strongs = extractStrongs(lemma || null);
-                for (const piece of text.split(/\s+/).filter(Boolean)) {
-                  if (piece === MAQQEF) continue;
-                  words.push({
-                    position: pos++,
-                    text: piece,
-                    lemma: lemma || null,
-                    morph: morph || null,
-                    strongs: strongs.length > 0 ? strongs : undefined,
-                  });
-                }
-              }
-            }
-
-            // OLD BUG: Recurse into ALL children including note/catchWord/rdg
-            for (const [key, value] of Object.entries(elem)) {
-              if (!key.startsWith('@_') && key !== '#text') {
-                extractWords(value);
-              }
-            }
-          }
-        }
-
-        for (const [key, value] of Object.entries(record)) {
-          if (!key.startsWith('@_')) {
-            extractWords(value);
-          }
-        }
-
-        if (words.length > 0) {
-          const text = words.map(w => w.text).join(' ');
-          results.push({
-            book,
-            chapter: parseInt(chap, 10),
-            number: parseInt(num, 10),
-            text,
-            words,
-          });
-        }
-      }
-    }
-
-    for (const value of Object.values(record)) {
-      findVerses(value, results);
-    }
-  }
-
-  findVerses(doc, verses);
-  return verses;
-}
-
-/**
- * NEW FIXED LOGIC - extracts ketiv/qere with proper metadata
- * This mirrors the actual import.ts logic
- */
-function parseOsisFixed(xml: string): ParsedVerse[] {
-  const parser = new XMLParser({
-    ignoreAttributes: false,
-    attributeNamePrefix: '@_',
-    textNodeName: '#text',
-    preserveOrder: false,
-    trimValues: false,
-  });
-
-  const doc = parser.parse(xml);
-  const verses: ParsedVerse[] = [];
-
-  function findVerses(obj: unknown, results: ParsedVerse[]): void {
-    if (!obj || typeof obj !== 'object') return;
-
-    if (Array.isArray(obj)) {
-      for (const item of obj) {
-        findVerses(item, results);
-      }
-      return;
-    }
-
-    const record = obj as Record<string, unknown>;
-
-    if (record['@_osisID'] && typeof record['@_osisID'] === 'string') {
-      const osisId = record['@_osisID'];
-      const parts = osisId.split('.');
-      if (parts.length === 3) {
-        const [book, chap, num] = parts;
-        const words: WordEntry[] = [];
-        let pos = 1;
-        let isInsideQere = false;
-
-        function processRdg(rdgValue: unknown): void {
-          if (!rdgValue) return;
-          const rdgArray = Array.isArray(rdgValue) ? rdgValue : [rdgValue];
-          for (const rdg of rdgArray) {
-            if (rdg && typeof rdg === 'object') {
-              const rdgObj = rdg as Record<string, unknown>;
-              const rdgType = rdgObj['@_type'] as string | undefined;
-              // Only process x-qere readings (skip x-accent)
-              if (rdgType === 'x-qere') {
-                const prevIsInsideQere = isInsideQere;
-                isInsideQere = true;
-                extractWords(rdg);
-                isInsideQere = prevIsInsideQere;
-              }
-            }
-          }
-        }
-
-        function extractWords(content: unknown): void {
-          if (!content) return;
-
-          if (typeof content === 'string') {
-            const cleanText = removeCantillation(content.replace(/\//g, '').trim());
-            if (cleanText) {
-              for (const word of cleanText.split(/\s+/).filter(Boolean)) {
-                if (word === MAQQEF) continue;
-                words.push({
-                  position: pos++,
-                  text: word,
-                  lemma: null,
-                  morph: null,
-                  metadata: {},
-                });
-              }
-            }
-            return;
-          }
-
-          if (Array.isArray(content)) {
-            for (const item of content) {
-              extractWords(item);
-            }
-            return;
-          }
-
-          if (typeof content === 'object') {
-            const elem = content as Record<string, unknown>;
-
-            if (elem['#text']) {
-              const elemType = elem['@_type'] as string | undefined;
-
-              // FIX: Only skip segment types, NOT x-ketiv or x-qere
-              if (elemType && elemType.startsWith('x-')) {
-                // Allow ketiv and qere types through
-                if (elemType !== 'x-ketiv' && elemType !== 'x-qere') {
-                  return;
-                }
-              }
-
-              const rawText = String(elem['#text']);
-              const text = removeCantillation(rawText.replace(/\//g, '')).trim();
-              const lemma = elem['@_lemma'] as string | undefined;
-              const morph = elem['@_morph'] as string | undefined;
-
-              if (text) {
-                const strongs = extractStrongs(lemma || null);
-                for (const piece of text.split(/\s+/).filter(Boolean)) {
-                  if (piece === MAQQEF) continue;
-
-                  // Determine variant type for Qere/Ketiv
-                  let variant: 'ketiv' | 'qere' | undefined;
-                  if (elemType === 'x-ketiv') {
-                    variant = 'ketiv';
-                  } else if (isInsideQere) {
-                    variant = 'qere';
-                  }
-
-                  words.push({
-                    position: pos++,
-                    text: piece,
-                    lemma: lemma || null,
-                    morph: morph || null,
-                    strongs: strongs.length > 0 ? strongs : undefined,
-                    variant,
-                  });
-                }
-              }
-            }
-
-            for (const [key, value] of Object.entries(elem)) {
-              // Skip catchWord (redundant copy of ketiv text)
-              if (key === 'catchWord') {
-                continue;
-              }
-              // Handle rdg elements specially
-              if (key === 'rdg') {
-                processRdg(value);
-                continue;
-              }
-              // Process note's rdg children but skip other note content
-              if (key === 'note') {
-                const noteArray = Array.isArray(value) ? value : [value];
-                for (const note of noteArray) {
-                  if (note && typeof note === 'object') {
-                    const noteObj = note as Record<string, unknown>;
-                    if (noteObj['rdg']) {
-                      processRdg(noteObj['rdg']);
-                    }
-                  }
-                }
-                continue;
-              }
-              if (!key.startsWith('@_') && key !== '#text') {
-                extractWords(value);
-              }
-            }
-          }
-        }
-
-        for (const [key, value] of Object.entries(record)) {
-          if (!key.startsWith('@_')) {
-            extractWords(value);
-          }
-        }
-
-        if (words.length > 0) {
-          const text = words.map(w => w.text).join(' ');
-          results.push({
-            book,
-            chapter: parseInt(chap, 10),
-            number: parseInt(num, 10),
-            text,
-            words,
-          });
-        }
-      }
-    }
-
-    for (const value of Object.values(record)) {
-      findVerses(value, results);
-    }
-  }
-
-  findVerses(doc, verses);
-  return verses;
-}
+const parser = new OsisParser();
 
 // Sample XML representing Genesis 8:17 ketiv/qere pattern
 const KETIV_QERE_XML = `<?xml version="1.0" encoding="UTF-8"?>
@@ -404,28 +48,9 @@ const ALTERNATIVE_ACCENT_XML = `<?xml version="1.0" encoding="UTF-8"?>
   </note>
 </verse>`;
 
-describe('import script parsing - old vs new behavior', () => {
-  it('OLD LOGIC: skips ketiv element (type=x-ketiv)', () => {
-    const verses = parseOsisBroken(KETIV_QERE_XML);
-    expect(verses).toHaveLength(1);
-
-    const verse = verses[0];
-
-    // Old logic skips x-ketiv elements, so "הוצא" ketiv is missing its lemma
-    // But it might still appear from catchWord extraction
-    const ketivText = 'הוצא';
-    const ketivWords = verse.words.filter(w => w.text === ketivText);
-
-    // If ketiv is found, it should NOT have lemma (from catchWord)
-    // or not be found at all (skipped)
-    for (const w of ketivWords) {
-      // Old logic would give null lemma from catchWord
-      expect(w.lemma).toBeNull();
-    }
-  });
-
-  it('FIXED LOGIC: extracts ketiv with lemma and variant field', () => {
-    const verses = parseOsisFixed(KETIV_QERE_XML);
+describe('OsisParser', () => {
+  it('extracts ketiv with lemma and variant field', () => {
+    const verses = parser.parse(KETIV_QERE_XML);
     expect(verses).toHaveLength(1);
 
     const verse = verses[0];
@@ -444,8 +69,8 @@ describe('import script parsing - old vs new behavior', () => {
     expect(qereWord!.lemma).toBe('3318');
   });
 
-  it('FIXED LOGIC: no duplicate words from alternative accent notes', () => {
-    const verses = parseOsisFixed(ALTERNATIVE_ACCENT_XML);
+  it('creates no duplicate words from alternative accent notes', () => {
+    const verses = parser.parse(ALTERNATIVE_ACCENT_XML);
     expect(verses).toHaveLength(1);
 
     const verse = verses[0];
@@ -458,14 +83,14 @@ describe('import script parsing - old vs new behavior', () => {
     expect(nullLemmaWords).toHaveLength(0);
   });
 
-  it('FIXED LOGIC: skips segment types like x-sof-pasuq', () => {
+  it('skips segment types like x-sof-pasuq', () => {
     const xml = `<?xml version="1.0" encoding="UTF-8"?>
     <verse osisID="Gen.1.1">
       <w lemma="7225" morph="HNcfsa">בְּרֵאשִׁית</w>
       <seg type="x-sof-pasuq">׃</seg>
     </verse>`;
 
-    const verses = parseOsisFixed(xml);
+    const verses = parser.parse(xml);
     expect(verses).toHaveLength(1);
 
     const verse = verses[0];
@@ -473,8 +98,8 @@ describe('import script parsing - old vs new behavior', () => {
     expect(verse.words[0].text).toBe('בְּרֵאשִׁית');
   });
 
-  it('FIXED LOGIC: users can filter by variant field', () => {
-    const verses = parseOsisFixed(KETIV_QERE_XML);
+  it('users can filter by variant field', () => {
+    const verses = parser.parse(KETIV_QERE_XML);
     const verse = verses[0];
 
     // Users can get only ketiv forms
@@ -489,50 +114,136 @@ describe('import script parsing - old vs new behavior', () => {
     const standardWords = verse.words.filter(w => !w.variant);
     expect(standardWords.length).toBeGreaterThan(0);
   });
-});
 
-describe('Strong\'s number extraction', () => {
-  it('should extract Strong\'s numbers with 3+ digits', () => {
-    // These should work with current regex
-    expect(extractStrongs('430')).toEqual(['H430']);
-    expect(extractStrongs('3068')).toEqual(['H3068']);
-    expect(extractStrongs('H7225')).toEqual(['H7225']);
-    expect(extractStrongs('b/7225')).toEqual(['H7225']);
-    expect(extractStrongs('c/559')).toEqual(['H559']);
+  it('keeps only the requested elements', () => {
+    const xml = `<verse osisID="Gen.1.1">
+      <w lemma="1254 a" morph="HVqp3ms">בָּרָא</w><seg type="x-maqqef">־</seg><w lemma="430" morph="HNcmpa">אֱלֹהִים</w>
+      <note>We read one or more accents in L differently than BHS.</note>
+      <seg type="x-sof-pasuq">׃</seg><seg type="x-pe">פ</seg>
+    </verse>`;
+
+    const [full] = parser.parse(xml);
+    expect(full.words.map(w => w.punctuation)).toEqual(['maqqef', 'sofPasuq']);
+    expect(full.words[1].notes).toEqual([{ type: 'note', text: 'We read one or more accents in L differently than BHS.' }]);
+    expect(full.paragraph).toBe('petuchah');
+
+    const [bare] = new OsisParser({ keep: [] }).parse(xml);
+    expect(bare.words.map(w => w.text)).toEqual(['בָּרָא', 'אֱלֹהִים']);
+    expect(bare.words.every(w => !w.punctuation && !w.notes)).toBe(true);
+    expect(bare.paragraph).toBeUndefined();
+
+    const [qereOnly] = new OsisParser({ keep: ['qere'] }).parse(KETIV_QERE_XML);
+    expect(qereOnly.words.map(w => w.variant)).toEqual([undefined, 'qere', undefined]);
+  });
+
+  it('keeps words, segs, notes and qere readings in source order', () => {
+    const xml = `<verse osisID="Ruth.3.5">
+      <w lemma="3605" morph="HNcmsc">כֹּל</w><seg type="x-maqqef">־</seg>
+      <w type="x-ketiv" lemma="559" morph="HVqi2fs">תאמרי</w>
+      <note type="variant"><catchWord>תאמרי</catchWord><rdg type="x-qere"><w lemma="413" morph="HR/Sp1cs">אֵלַי</w></rdg></note>
+      <note>A &amp; B</note>
+      <w lemma="6213 a" morph="HVqi1cs">אֶעֱשֶׂה</w><seg type="x-sof-pasuq">׃</seg>
+    </verse>`;
+
+    const [verse] = parser.parse(xml);
+    expect(verse.words.map(w => [w.position, w.text, w.variant, w.punctuation])).toEqual([
+      [1, 'כֹּל', undefined, 'maqqef'],
+      [2, 'תאמרי', 'ketiv', undefined],
+      [3, 'אֵלַי', 'qere', undefined],
+      [4, 'אֶעֱשֶׂה', undefined, 'sofPasuq'],
+    ]);
+    expect(verse.words[2].notes).toEqual([{ type: 'note', text: 'A & B' }]);
+  });
+
+  it('marks ketiv words repeated by a qere note\'s catchWord', () => {
+    // Older MorphHB releases mark ketiv only through the catchWord
+    const xml = `<verse osisID="Ruth.3.12">
+      <w lemma="3588 a" morph="HTc">כִּי</w><w lemma="518 a" morph="HC">אם</w><note type="variant"><catchWord>אם</catchWord><rdg type="x-qere"/></note>
+      <w lemma="1350" morph="HVqrmsa">גֹאֵל</w><w lemma="5869 a" morph="HNcbdc/Sp3ms">עינ/ו</w><seg type="x-maqqef">־</seg><w lemma="3605" morph="HNcmsc">כל</w>
+      <note type="variant"><catchWord>עינ/ו־כל</catchWord><rdg type="x-qere"><w lemma="5869 a" morph="HNcbdc/Sp3ms">עֵינָ֔י/ו</w></rdg></note>
+    </verse>`;
+
+    const [verse] = parser.parse(xml);
+    expect(verse.words.map(w => [w.text, w.variant])).toEqual([
+      ['כִּי', undefined],
+      ['אם', 'ketiv'],
+      ['גֹאֵל', undefined],
+      ['עינו', 'ketiv'],
+      ['כל', 'ketiv'],
+      ['עֵינָ֔יו', 'qere'],
+    ]);
+
+    const [qere] = new OsisParser({ keep: ['qere'] }).parse(xml);
+    expect(qere.words.map(w => w.text)).toEqual(['כִּי', 'גֹאֵל', 'עֵינָ֔יו']);
+    expect(qere.words.map(w => w.position)).toEqual([1, 2, 3]);
+  });
+
+  it('streams verses from chunks split anywhere', async () => {
+    const xml = `<osis><chapter osisID="Exod.20">${ALTERNATIVE_ACCENT_XML.replace(/^<\?xml[^>]*>/, '')}
+      <verse osisID="Exod.20.3"><w lemma="3808" morph="HTn">לֹא</w><seg type="x-sof-pasuq">׃</seg></verse>
+    </chapter></osis>`;
+    const expected = parser.parse(xml);
+    expect(expected.map(v => v.number)).toEqual([2, 3]);
+
+    for (const size of [1, 5, 64]) {
+      const chunks: string[] = [];
+      for (let i = 0; i < xml.length; i += size) chunks.push(xml.slice(i, i + size));
+      const verses = [];
+      for await (const verse of parser.stream(chunks)) verses.push(verse);
+      expect(verses).toEqual(expected);
+    }
   });
 
-  it('BUG: should extract Strong\'s numbers with 1-2 digits', () => {
-    // These FAIL with current regex (\d{3,5} requires 3+ digits)
-    // H1 = אָב (father), H6 = אָבַד (perish), H14 = אָבָה (consent)
-    // H85 = אַבְרָהָם (Abraham), H26 = אֲבִיגַיִל (Abigail)
-    expect(extractStrongs('1')).toEqual(['H1']);
-    expect(extractStrongs('6')).toEqual(['H6']);
-    expect(extractStrongs('14')).toEqual(['H14']);
-    expect(extractStrongs('85')).toEqual(['H85']);
-    expect(extractStrongs('26')).toEqual(['H26']);
-    expect(extractStrongs('c/6')).toEqual(['H6']);
-    expect(extractStrongs('l/26')).toEqual(['H26']);
+  it('reads verses marked by sID and eID milestones', () => {
+    const xml = `<verse sID="Gen.1.1" osisID="Gen.1.1"/><w lemma="1254 a">בָּרָא</w><verse eID="Gen.1.1"/>
+      <verse sID="Gen.1.2" osisID="Gen.1.2"/><w lemma="776">הָאָרֶץ</w><verse eID="Gen.1.2"/>`;
+    expect(parser.parse(xml).map(v => [v.number, v.text])).toEqual([[1, 'בָּרָא'], [2, 'הָאָרֶץ']]);
   });
 
-  it('BUG: should extract Strong\'s with letter suffix (e.g., "1471 a")', () => {
-    // Lemmas often have a letter suffix for disambiguation
-    expect(extractStrongs('1471 a')).toEqual(['H1471']);
-    expect(extractStrongs('7227 a')).toEqual(['H7227']);
-    expect(extractStrongs('1 a')).toEqual(['H1']); // Short number with suffix
+  it('skips a DOCTYPE with an internal subset and ">" in quoted values', async () => {
+    const xml = `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE osis SYSTEM "osis>2.1.dtd" [
+  <!ENTITY arrow "->">
+  <!-- a comment's "]" and ">" do not end the subset -->
+  <!ATTLIST w morph CDATA '>'>
+]>
+<osis><verse osisID="Gen.1.1"><w lemma="1254 a" morph="HVqp3ms" type="a>b">בָּרָא</w></verse></osis>`;
+    const expected = parser.parse(xml);
+    expect(expected.map(v => [v.number, v.text])).toEqual([[1, 'בָּרָא']]);
+
+    const chunks = Array.from(xml, char => char);
+    const verses = [];
+    for await (const verse of parser.stream(chunks)) verses.push(verse);
+    expect(verses).toEqual(expected);
   });
 
-  it('should handle compound lemmas with prefix', () => {
-    expect(extractStrongs('b/990')).toEqual(['H990']);
-    expect(extractStrongs('d/8064')).toEqual(['H8064']);
-    expect(extractStrongs('c/853')).toEqual(['H853']);
+  it('rejects XML that ends inside a tag', () => {
+    expect(() => parser.parse('<verse osisID="Gen.1.1"><w lemma="1254 a"')).toThrow('XML ends inside a tag');
+    expect(() => parser.parse('<!DOCTYPE osis [<!ENTITY a "b">')).toThrow('XML ends inside a tag');
   });
 
-  it('should return empty array for prefix-only lemmas', () => {
-    // These correctly return empty - no Strong's for pure grammatical constructions
-    expect(extractStrongs('l')).toEqual([]);
-    expect(extractStrongs('b')).toEqual([]);
-    expect(extractStrongs('c/l')).toEqual([]);
-    expect(extractStrongs('m')).toEqual([]);
+  it('normalizes word text when asked', () => {
+    const xml = '<verse osisID="Gen.1.1"><w lemma="b/7225" morph="HR/Ncfsa">בְּ/רֵאשִׁ֖ית</w></verse>';
+    expect(parser.parse(xml)[0].words[0].text).toBe('בְּרֵאשִׁ֖ית');
+    expect(new OsisParser({ normalization: 'noCantillation' }).parse(xml)[0].words[0].text).toBe('בְּרֵאשִׁית'.normalize('NFC'));
+    expect(new OsisParser({ normalization: 'consonants' }).parse(xml)[0].words[0].text).toBe('בראשית');
+  });
+
+  it('builds stored verses with positions, punctuation and notes anchored to words', () => {
+    const xml = `<verse osisID="Gen.1.1">
+      <note type="exegesis">Verse note.</note>
+      <w lemma="b/7225" morph="HR/Ncfsa">בְּ/רֵאשִׁית</w>
+      <w lemma="1254 a" morph="HVqp3ms">בָּרָא</w><note>A note.</note><seg type="x-sof-pasuq">׃</seg>
+    </verse>`;
+
+    const data = toVerseData(parser.parse(xml)[0]);
+    expect(data.text).toBe('בְּרֵאשִׁית בָּרָא׃');
+    expect(data.words.map(w => [w.position, w.punctuation])).toEqual([[1, 'space'], [2, 'sofPasuq']]);
+    expect(data.notes).toEqual([
+      { type: 'exegesis', text: 'Verse note.', position: 0 },
+      { type: 'note', text: 'A note.', position: 2 },
+    ]);
+    expect(data.gematria?.standard).toBe(913 + 203);
   });
 });
 
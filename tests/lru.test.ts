@@ -0,0 +1,119 @@
+/**
+ * Tests for the LRU cache and the source loaders' verse cache
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import { readFile } from 'fs/promises';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+import { LruCache } from '../src/lru.js';
+import { createMemoryBackend } from '../src/backends.js';
+import { clearCache, configureCache, createSource, loadVerse } from '../src/source.js';
+import type { LoaderBackend } from '../src/backends.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+/**
+ * Serve Ruth 1:1-2 from memory, recording every file read.
+ */
+async function countingBackend(reads: string[]): Promise<LoaderBackend> {
+  const files: Record<string, string> = {};
+  for (const verse of [1, 2]) {
+    const location = `data/openscriptures-OHB/Ruth/1/${verse}.json`;
+    files[location] = await readFile(join(__dirname, '..', location), 'utf-8');
+  }
+  const memory = createMemoryBackend(files);
+  return {
+    ...memory,
+    readText(location) {
+      reads.push(location);
+      return memory.readText(location);
+    },
+  };
+}
+
+describe('LruCache', () => {
+  it('evicts the least recently used entries beyond maxEntries', () => {
+    const cache = new LruCache<string, string>({ maxEntries: 2, maxBytes: 100 }, value => value.length);
+    cache.set('a', 'x');
+    cache.set('b', 'y');
+    cache.get('a');
+    cache.set('c', 'z');
+    expect(cache.has('a')).toBe(true);
+    expect(cache.has('b')).toBe(false);
+    expect(cache.size).toBe(2);
+  });
+
+  it('evicts beyond maxBytes and skips values larger than the limit', () => {
+    const cache = new LruCache<string, string>({ maxEntries: 10, maxBytes: 5 }, value => value.length);
+    cache.set('a', 'aaa');
+    cache.set('b', 'bb');
+    expect(cache.bytes).toBe(5);
+    cache.set('c', 'c');
+    expect(cache.has('a')).toBe(false);
+    cache.set('big', 'toolarge');
+    expect(cache.has('big')).toBe(false);
+    expect(cache.bytes).toBe(3);
+  });
+
+  it('applies new limits immediately', () => {
+    const cache = new LruCache<number, number>({ maxEntries: 5, maxBytes: 100 }, () => 1);
+    for (let i = 0; i < 5; i++) cache.set(i, i);
+    cache.configure({ maxEntries: 2 });
+    expect(cache.size).toBe(2);
+    expect(cache.has(4)).toBe(true);
+    cache.configure({ maxEntries: 0 });
+    cache.set(9, 9);
+    expect(cache.size).toBe(0);
+  });
+});
+
+describe('verse cache', () => {
+  afterEach(() => {
+    configureCache({ maxEntries: 10000, maxBytes: 64 * 1024 * 1024 });
+    clearCache();
+  });
+
+  it('serves repeated loads from memory until cleared', async () => {
+    const reads: string[] = [];
+    const source = createSource({ backend: await countingBackend(reads) });
+    const verseReads = () => reads.filter(location => location.endsWith('Ruth/1/1.json')).length;
+
+    await source.preload(['Ruth']);
+    expect(verseReads()).toBe(1);
+    const first = await source.loadVerse('Ruth', 1, 1);
+    expect(await source.loadVerse('Ruth', 1, 1)).toEqual(first);
+    expect((await source.loadChapter('Ruth', 1))[0]).toEqual(first);
+    expect(verseReads()).toBe(1);
+
+    source.clearCache();
+    expect(await source.loadVerse('Ruth', 1, 1)).toEqual(first);
+    expect(verseReads()).toBe(2);
+  });
+
+  it('returns copies that callers may modify', async () => {
+    const reads: string[] = [];
+    const source = createSource({ backend: await countingBackend(reads) });
+    const first = await source.loadVerse('Ruth', 1, 1);
+    const text = first.words[0].text;
+
+    first.words[0].text = '';
+    first.words.pop();
+    (await source.loadChapter('Ruth', 1))[0].words.length = 0;
+    const again = await source.loadVerse('Ruth', 1, 1);
+    expect(again.words[0].text).toBe(text);
+    expect(again.words).toHaveLength(first.words.length + 1);
+    expect(reads.filter(location => location.endsWith('Ruth/1/1.json'))).toHaveLength(1);
+  });
+
+  it('does not cache when disabled and leaves cached verses unmodified', async () => {
+    configureCache({ maxEntries: 0 });
+    expect(await loadVerse('Ruth', 1, 2)).not.toBe(await loadVerse('Ruth', 1, 2));
+
+    configureCache({ maxEntries: 100 });
+    const withMorphology = await loadVerse('Ruth', 1, 2, { morphology: true });
+    expect(withMorphology.words[0].morphology).toBeDefined();
+    expect((await loadVerse('Ruth', 1, 2)).words[0].morphology).toBeUndefined();
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * Tests for the generated books/* modules
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { copyFile, mkdir, mkdtemp, rm, readFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join, dirname } from 'path';
+import { fileURLToPath, pathToFileURL } from 'url';
+import { loadBook, loadVerse } from '../src/source.js';
+import type { WordEntry } from '../src/types.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+const ROOT_DIR = join(__dirname, '..');
+
+describe('build-books script', () => {
+  let outDir: string;
+
+  beforeAll(async () => {
+    outDir = await mkdtemp(join(tmpdir(), 'ohb-books-'));
+    await promisify(execFile)(
+      join(ROOT_DIR, 'node_modules', '.bin', 'tsx'),
+      [join(ROOT_DIR, 'scripts', 'build-books.ts'), '--books', 'Ruth,1Sam', '--out', outDir]
+    );
+  }, 60000);
+
+  afterAll(async () => {
+    await rm(outDir, { recursive: true, force: true });
+  });
+
+  const load = async (path: string) => (await import(pathToFileURL(join(outDir, `${path}.js`)).href)).default;
+
+  it('generates book, chapter and verse modules with references', async () => {
+    const ruth = await load('Ruth');
+    expect(ruth).toHaveLength(4);
+    expect(ruth.flat()).toHaveLength((await loadBook('Ruth')).length);
+
+    const verse = await load('Ruth/1/1');
+    expect(verse).toMatchObject({ book: 'Ruth', chapter: 1, verse: 1 });
+    expect(verse.words.length).toBeGreaterThan(0);
+  });
+
+  it('exposes English names and OSIS IDs', async () => {
+    expect(await load('1Sam/3')).toBe(await load('1Samuel/3'));
+    expect((await load('1Sam/3/10')).verse).toBe(10);
+    expect(await readFile(join(outDir, '1Samuel', '3', '10.d.ts'), 'utf-8')).toContain('LocatedVerse');
+  });
+});
+
+describe('published package', () => {
+  const run = promisify(execFile);
+  let dir: string;
+  let consumer: string;
+
+  // Packs a copy of package.json with only Ruth built, then installs the
+  // tarball where nothing but the packed files can be reached
+  beforeAll(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'ohb-pack-'));
+    const packageDir = join(dir, 'package');
+    await mkdir(packageDir);
+    await copyFile(join(ROOT_DIR, 'package.json'), join(packageDir, 'package.json'));
+    await run(join(ROOT_DIR, 'node_modules', '.bin', 'tsx'), [
+      join(ROOT_DIR, 'scripts', 'build-books.ts'),
+      '--books',
+      'Ruth',
+      '--out',
+      join(packageDir, 'dist', 'books'),
+    ]);
+
+    const { stdout } = await run('npm', ['pack', '--json', '--ignore-scripts', '--pack-destination', dir], {
+      cwd: packageDir,
+    });
+    const [{ filename }] = JSON.parse(stdout);
+    consumer = join(dir, 'consumer');
+    const installed = join(consumer, 'node_modules', '@metaxia', 'scriptures-source-openscriptures-ohb');
+    await mkdir(installed, { recursive: true });
+    await run('tar', ['-xzf', join(dir, filename), '-C', installed, '--strip-components=1']);
+  }, 120000);
+
+  afterAll(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('imports books/* entries from the packed tarball', async () => {
+    const script = `
+      import verse from '@metaxia/scriptures-source-openscriptures-ohb/books/Ruth/1/1';
+      import chapter from '@metaxia/scriptures-source-openscriptures-ohb/books/Ruth/1';
+      console.log(JSON.stringify({ verse, verses: chapter.length }));
+    `;
+    const { stdout } = await run(process.execPath, ['--input-type=module', '-e', script], { cwd: consumer });
+    const { verse, verses } = JSON.parse(stdout);
+
+    expect(verse).toMatchObject({ book: 'Ruth', chapter: 1, verse: 1 });
+    expect(verse.words.map((word: { text: string }) => word.text)).toEqual(
+      (await loadVerse('Ruth', 1, 1)).words.map((word: WordEntry) => word.text)
+    );
+    expect(verses).toBe(22);
+  });
+});
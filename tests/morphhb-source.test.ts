@@ -0,0 +1,167 @@
+/**
+ * Tests for the importer's MorphHB sources: local checkouts, archives and checksums
+ */
+
+import { describe, it, expect, beforeAll, afterAll, afterEach, beforeEach, vi } from 'vitest';
+import { execFileSync } from 'child_process';
+import { mkdtemp, mkdir, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  hashBook,
+  openSource,
+  parseChecksums,
+  readTarball,
+  resolveGitRef,
+  resolveRemoteRef,
+  sha256,
+  verifyChecksum,
+} from '../scripts/morphhb-source.js';
+
+const RUTH_XML = '<osis><verse osisID="Ruth.1.1"><w lemma="1961" morph="HVqw3ms">וַיְהִי</w></verse></osis>';
+
+describe('MorphHB sources', () => {
+  let dir: string;
+  let checkout: string;
+  let commit: string;
+
+  const git = (...args: string[]) =>
+    execFileSync('git', ['-c', 'user.name=test', '-c', 'user.email=test@example.com', ...args], {
+      cwd: checkout,
+      encoding: 'utf-8',
+    }).trim();
+
+  beforeAll(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'ohb-morphhb-'));
+    checkout = join(dir, 'morphhb');
+    await mkdir(join(checkout, 'wlc'), { recursive: true });
+    await writeFile(join(checkout, 'wlc', 'Ruth.xml'), RUTH_XML, 'utf-8');
+    git('init', '-q');
+    git('add', '.');
+    git('commit', '-q', '-m', 'Ruth');
+    git('tag', 'v2.2');
+    git('tag', '-a', 'v2.2-annotated', '-m', 'Ruth release');
+    commit = git('rev-parse', 'HEAD');
+    git('archive', '--format=tar.gz', '--prefix=morphhb/', '-o', join(dir, 'morphhb.tar.gz'), 'HEAD');
+  });
+
+  afterAll(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('reads a checkout at its HEAD commit', async () => {
+    const source = await openSource({ from: checkout, cacheDir: dir });
+    expect(source.revision).toBe(commit);
+    expect(await source.readBook('Ruth.xml')).toBe(RUTH_XML);
+  });
+
+  it('resolves tags and rejects a checkout at another revision', async () => {
+    expect(await resolveGitRef(checkout, 'v2.2')).toBe(commit);
+    expect((await openSource({ from: checkout, revision: 'v2.2', cacheDir: dir })).revision).toBe(commit);
+    expect(await resolveGitRef(checkout, 'v2.2-annotated')).toBe(commit);
+    expect((await openSource({ from: checkout, revision: 'v2.2-annotated', cacheDir: dir })).revision).toBe(commit);
+    await expect(openSource({ from: checkout, revision: 'f'.repeat(40), cacheDir: dir })).rejects.toThrow(
+      `is at ${commit}`
+    );
+  });
+
+  it('requires a revision for directories that are not checkouts', async () => {
+    const wlc = join(checkout, 'wlc');
+    await expect(openSource({ from: wlc, cacheDir: dir })).rejects.toThrow('pass --revision');
+    const source = await openSource({ from: wlc, revision: 'v2.2', cacheDir: dir });
+    expect(source.revision).toBe('v2.2');
+    expect(await source.readBook('Ruth.xml')).toBe(RUTH_XML);
+  });
+
+  it('reads books and the commit from a git archive tarball', async () => {
+    const source = await openSource({ from: join(dir, 'morphhb.tar.gz'), cacheDir: dir });
+    expect(source.revision).toBe(commit);
+    expect(await source.readBook('Ruth.xml')).toBe(RUTH_XML);
+    await expect(source.readBook('Gen.xml')).rejects.toThrow('Gen.xml not found');
+
+    await expect(
+      openSource({ from: join(dir, 'morphhb.tar.gz'), revision: 'f'.repeat(40), cacheDir: dir })
+    ).rejects.toThrow(`holds ${commit}`);
+  });
+
+  it('streams and hashes books from checkouts and archives', async () => {
+    for (const from of [checkout, join(dir, 'morphhb.tar.gz')]) {
+      const source = await openSource({ from, cacheDir: dir });
+      const chunks: string[] = [];
+      for await (const chunk of source.streamBook('Ruth.xml')) chunks.push(chunk);
+      expect(chunks.join('')).toBe(RUTH_XML);
+      expect(await hashBook(source, 'Ruth.xml')).toBe(sha256(RUTH_XML));
+    }
+  });
+
+  it('lists only wlc books in archives', async () => {
+    const { files } = readTarball(await readFile(join(dir, 'morphhb.tar.gz')));
+    expect([...files.keys()]).toEqual(['Ruth.xml']);
+  });
+});
+
+describe('GitHub downloads', () => {
+  const commit = 'a'.repeat(40);
+  let dir: string;
+  let requests: string[];
+
+  beforeAll(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'ohb-download-'));
+  });
+
+  afterAll(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    requests = [];
+    vi.stubGlobal('fetch', async (url: string) => {
+      requests.push(url);
+      if (url.endsWith('/commits/master')) return new Response(`${commit}\n`);
+      if (url.includes('/commits/')) return new Response('Not Found', { status: 422 });
+      if (url.endsWith(`/${commit}/wlc/Ruth.xml`)) return new Response(RUTH_XML);
+      return new Response('Not Found', { status: 404 });
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('downloads and records the commit a branch points at', async () => {
+    const source = await openSource({ cacheDir: dir });
+    expect(source.revision).toBe(commit);
+    expect(await source.readBook('Ruth.xml')).toBe(RUTH_XML);
+    expect(requests).toEqual([
+      'https://api.github.com/repos/openscriptures/morphhb/commits/master',
+      `https://raw.githubusercontent.com/openscriptures/morphhb/${commit}/wlc/Ruth.xml`,
+    ]);
+    expect(await readFile(join(dir, commit, 'Ruth.xml'), 'utf-8')).toBe(RUTH_XML);
+  });
+
+  it('uses commits as given and rejects unknown refs', async () => {
+    expect(await resolveRemoteRef(commit.toUpperCase())).toBe(commit);
+    expect(requests).toEqual([]);
+    await expect(openSource({ revision: 'no-such-tag', cacheDir: dir })).rejects.toThrow(
+      'Cannot resolve MorphHB revision no-such-tag: 422'
+    );
+  });
+});
+
+describe('checksums', () => {
+  const checksum = sha256(RUTH_XML);
+
+  it('parses sha256sum output and import metadata', () => {
+    expect(parseChecksums(`${checksum}  wlc/Ruth.xml\n`).get('Ruth.xml')).toBe(checksum);
+    expect(parseChecksums(JSON.stringify({ upstream: { files: { 'Ruth.xml': checksum } } })).get('Ruth.xml')).toBe(
+      checksum
+    );
+  });
+
+  it('verifies books against their checksums', () => {
+    const checksums = new Map([['Ruth.xml', checksum]]);
+    expect(() => verifyChecksum('Ruth.xml', RUTH_XML, checksums)).not.toThrow();
+    expect(() => verifyChecksum('Ruth.xml', `${RUTH_XML}\n`, checksums)).toThrow('Checksum mismatch for Ruth.xml');
+    expect(() => verifyChecksum('Gen.xml', RUTH_XML, checksums)).toThrow('No checksum for Gen.xml');
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * Tests for the OSHB morphology decoder
+ */
+
+import { describe, it, expect } from 'vitest';
+import { decodeMorphology } from '../src/morphology.js';
+import { loadVerse } from '../src/source.js';
+import type { WordEntry } from '../src/types.js';
+import { EZRA_4_12_XML, JER_6_26_XML, importedSource } from './fixtures/morphhb.js';
+
+describe('decodeMorphology', () => {
+  it('decodes a Hebrew qal perfect verb', () => {
+    const parsed = decodeMorphology('HVqp3ms');
+    expect(parsed).toMatchObject({
+      code: 'HVqp3ms',
+      language: 'Hebrew',
+      partOfSpeech: 'verb',
+      stem: 'qal',
+      aspect: 'perfect',
+      person: 3,
+      gender: 'masculine',
+      number: 'singular',
+    });
+    expect(parsed.prefixes).toEqual([]);
+    expect(parsed.suffixes).toEqual([]);
+  });
+
+  it('decodes the article prefix and the noun stem', () => {
+    const parsed = decodeMorphology('ATd/Ncmsa');
+    expect(parsed.language).toBe('Aramaic');
+    expect(parsed.prefixes).toEqual([
+      { code: 'Td', role: 'prefix', partOfSpeech: 'particle', type: 'definiteArticle' },
+    ]);
+    expect(parsed).toMatchObject({
+      partOfSpeech: 'noun',
+      type: 'common',
+      gender: 'masculine',
+      number: 'singular',
+      state: 'absolute',
+    });
+  });
+
+  it('decodes pronominal suffixes', () => {
+    const parsed = decodeMorphology('HR/Sp2ms');
+    expect(parsed.partOfSpeech).toBe('preposition');
+    expect(parsed.suffixes).toEqual([
+      {
+        code: 'Sp2ms',
+        role: 'suffix',
+        partOfSpeech: 'suffix',
+        type: 'pronominal',
+        person: 2,
+        gender: 'masculine',
+        number: 'singular',
+      },
+    ]);
+  });
+
+  it('uses the Aramaic stem and treats a trailing Td as the emphatic suffix', () => {
+    expect(decodeMorphology('AVhp3ms')).toMatchObject({ stem: 'haphel', aspect: 'perfect' });
+    expect(decodeMorphology('HVhp3ms')).toMatchObject({ stem: 'hiphil', aspect: 'perfect' });
+
+    const emphatic = decodeMorphology('ANcmsd/Td');
+    expect(emphatic).toMatchObject({ partOfSpeech: 'noun', state: 'determined' });
+    expect(emphatic.suffixes.map(s => s.code)).toEqual(['Td']);
+  });
+
+  it('decodes participles and infinitives', () => {
+    expect(decodeMorphology('HTd/Vqrmsa')).toMatchObject({
+      aspect: 'participleActive',
+      gender: 'masculine',
+      number: 'singular',
+      state: 'absolute',
+    });
+    const infinitive = decodeMorphology('HR/Vqc');
+    expect(infinitive).toMatchObject({ stem: 'qal', aspect: 'infinitiveConstruct' });
+    expect(infinitive.person).toBeUndefined();
+  });
+
+  it('leaves "x" features undefined', () => {
+    const parsed = decodeMorphology('HPdxcp');
+    expect(parsed).toMatchObject({ type: 'demonstrative', gender: 'common', number: 'plural' });
+    expect(parsed.person).toBeUndefined();
+  });
+
+  it('rejects invalid codes', () => {
+    expect(() => decodeMorphology('XNcmsa')).toThrow("Invalid morphology code 'XNcmsa'");
+    expect(() => decodeMorphology('HZq')).toThrow();
+    expect(() => decodeMorphology('HVqz3ms')).toThrow();
+    expect(() => decodeMorphology('HNcmsaa')).toThrow();
+    expect(() => decodeMorphology('HC//Vqp3ms')).toThrow();
+  });
+
+  it('ignores a stray trailing "/"', () => {
+    expect(decodeMorphology('HVtv2fs/')).toMatchObject({ code: 'HVtv2fs/', stem: 'hithpael', aspect: 'imperative' });
+    expect(decodeMorphology('AC/Ncmpc/').segments.map(s => s.code)).toEqual(['C', 'Ncmpc']);
+  });
+});
+
+describe('loadVerse morphology option', () => {
+  it('adds decoded morphology only when requested', async () => {
+    const plain = await loadVerse('Genesis', 1, 1);
+    expect(plain.words[1].morphology).toBeUndefined();
+
+    const verse = await loadVerse('Genesis', 1, 1, { morphology: true });
+    expect(verse.words[1].morphology).toMatchObject({ partOfSpeech: 'verb', stem: 'qal' });
+  });
+
+  it('decodes codes with a stray trailing "/"', async () => {
+    const ezra = await importedSource(EZRA_4_12_XML).loadVerse('Ezra', 4, 12, { morphology: true });
+    expect(ezra.words.find((w: WordEntry) => w.morph === 'AC/Ncmpc/')?.morphology).toMatchObject({ partOfSpeech: 'noun', state: 'construct' });
+
+    const jer = importedSource(JER_6_26_XML);
+    const verse = await jer.loadVerse('Jer', 6, 26, { morphology: true });
+    expect(verse.words[4].morphology).toMatchObject({ partOfSpeech: 'verb', stem: 'hithpael' });
+    await expect(jer.loadChapter('Jer', 6, { morphology: true })).resolves.toHaveLength(1);
+  });
+
+  it('reports undecodable codes rather than a missing verse', async () => {
+    const source = importedSource(JER_6_26_XML.replace('HVtv2fs/', 'HVtz2fs'));
+    await expect(source.loadVerse('Jer', 6, 26, { morphology: true })).rejects.toThrow("Invalid morphology code 'HVtz2fs'");
+    await expect(source.loadChapter('Jer', 6, { morphology: true })).rejects.toThrow("Invalid morphology code 'HVtz2fs'");
+    await expect(source.loadBook('Jer', { morphology: true })).rejects.toThrow("Invalid morphology code 'HVtz2fs'");
+  });
+});
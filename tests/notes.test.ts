@@ -0,0 +1,84 @@
+/**
+ * Tests for textual-critical notes
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createMemoryBackend } from '../src/backends.js';
+import { packBook, PackedBookReader } from '../src/packed.js';
+import { createSource } from '../src/source.js';
+import { normalizeHebrew } from '../src/text.js';
+import { EXOD_20_XML, importedSource } from './fixtures/morphhb.js';
+import type { OhbVerseData } from '../src/types.js';
+
+const VERSE: OhbVerseData = {
+  text: 'אָנֹכִי יְהוָה אֱלֹהֶיךָ׃',
+  words: [
+    { position: 1, text: 'אָנֹכִי', lemma: '595', morph: 'HPp1cs', punctuation: 'space' },
+    { position: 2, text: 'יְהוָה', lemma: '3068', morph: 'HNp', punctuation: 'space' },
+    { position: 3, text: 'אֱלֹהֶיךָ', lemma: '430', morph: 'HNcmpc/Sp2ms', punctuation: 'sofPasuq' },
+  ],
+  notes: [
+    { type: 'x-accent', position: 1, reading: 'אָנֹכִי' },
+    { type: 'note', position: 3, text: 'We read one or more accents in L differently than BHS.' },
+  ],
+} as OhbVerseData;
+
+describe('loadNotes', () => {
+  const source = createSource({
+    backend: createMemoryBackend({
+      'data/openscriptures-OHB/Exod/20/1.json': JSON.stringify({ text: 'וַיְדַבֵּר', words: [{ position: 1, text: 'וַיְדַבֵּר' }] }),
+      'data/openscriptures-OHB/Exod/20/2.json': JSON.stringify(VERSE),
+    }),
+  });
+
+  it('returns the notes of a chapter with their verses', async () => {
+    expect(await source.loadNotes('Exodus', 20)).toEqual([
+      { book: 'Exod', chapter: 20, verse: 2, type: 'x-accent', position: 1, reading: 'אָנֹכִי' },
+      {
+        book: 'Exod',
+        chapter: 20,
+        verse: 2,
+        type: 'note',
+        position: 3,
+        text: 'We read one or more accents in L differently than BHS.',
+      },
+    ]);
+  });
+
+  it('keeps notes on loaded verses', async () => {
+    expect((await source.loadVerse('Exod', 20, 2)).notes).toHaveLength(2);
+  });
+
+  it('throws for a missing chapter', async () => {
+    await expect(source.loadNotes('Exodus', 21)).rejects.toThrow('Chapter Exodus 21 not found in openscriptures-OHB');
+  });
+});
+
+describe('imported notes', () => {
+  it('reads the MorphHB apparatus of Exod 20', async () => {
+    const source = importedSource(EXOD_20_XML);
+    const notes = await source.loadNotes('Exod', 20);
+    const anokhi = (await source.loadVerse('Exod', 20, 2)).words[0].text;
+
+    const accent = notes.find(note => note.verse === 2 && note.position === 1)!;
+    expect(accent.type).toBe('x-accent');
+    expect(accent.reading).not.toBe(anokhi);
+    expect(normalizeHebrew(accent.reading!, 'consonants')).toBe(normalizeHebrew(anokhi, 'consonants'));
+    expect(notes).toContainEqual({
+      book: 'Exod',
+      chapter: 20,
+      verse: 3,
+      type: 'note',
+      position: 3,
+      text: 'BHS has been faithful to the Leningrad Codex where there might be a question of the validity of the form and we keep the same form as BHS.',
+    });
+  });
+});
+
+describe('packed notes', () => {
+  it('round-trips notes through the packed format', async () => {
+    const packed = packBook('Exod', [{ chapter: 20, verse: 2, data: VERSE }]);
+    const reader = await PackedBookReader.open(createMemoryBackend({ 'Exod.jsonl': packed }), 'Exod.jsonl');
+    expect((await reader.readVerse(20, 2))!.notes).toEqual(VERSE.notes);
+  });
+});
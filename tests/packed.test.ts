@@ -0,0 +1,118 @@
+/**
+ * Tests for the packed data format
+ */
+
+import { describe, it, expect } from 'vitest';
+import { readFile } from 'fs/promises';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+import { packBook, PackedBookReader } from '../src/packed.js';
+import { segmentWord } from '../src/segments.js';
+import { createMemoryBackend } from '../src/backends.js';
+import { createSource, loadChapter, searchText } from '../src/source.js';
+import type { OhbVerseData } from '../src/types.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+const VERSES: Array<{ chapter: number; verse: number; data: OhbVerseData }> = [
+  {
+    chapter: 1,
+    verse: 1,
+    data: {
+      text: 'וַיְהִי־כֵן׃',
+      words: [
+        {
+          position: 1, text: 'וַיְהִי', lemma: 'c/1961', morph: 'HC/Vqw3ms', strongs: ['H1961'],
+          punctuation: 'maqqef', metadata: {}, source: { lemma: 'c/1961', morph: 'HC/Vqw3ms' },
+          segments: segmentWord('c/1961', 'HC/Vqw3ms'),
+        },
+        {
+          position: 2, text: 'כֵן', lemma: '3651 c', morph: 'HD', strongs: ['H3651'],
+          punctuation: 'sofPasuq', metadata: {}, source: { lemma: '3651 c', morph: 'HD' },
+        },
+      ],
+      paragraph: 'petuchah',
+    },
+  },
+  {
+    chapter: 1,
+    verse: 2,
+    data: {
+      text: 'נערה נַעֲרָה',
+      words: [
+        {
+          position: 1, text: 'נערה', lemma: '5291', morph: 'HNcfsa', strongs: ['H5291'], variant: 'ketiv',
+          metadata: {}, source: { lemma: '5291', morph: 'HNcfsa', type: 'x-ketiv' },
+        },
+        {
+          position: 2, text: 'נַעֲרָה', lemma: '5291', morph: 'HNcfsa', strongs: ['H5291'], variant: 'qere',
+          metadata: { note: 'kept' }, source: { lemma: '5291', morph: 'HNcfsa' },
+        },
+      ],
+    },
+  },
+  { chapter: 2, verse: 1, data: { text: 'ב', words: [{ position: 1, text: 'ב', lemma: 'b', morph: null, metadata: { isPrefixOnly: true }, source: { lemma: 'b' } }] } },
+];
+
+describe('packBook', () => {
+  const content = packBook('Test', VERSES);
+  const backend = createMemoryBackend({ 'Test.jsonl': content, 'Other.jsonl': '{"format":"other"}\n' });
+
+  it('deduplicates lemmas and morphs and drops derivable fields', () => {
+    const header = JSON.parse(content.slice(0, content.indexOf('\n')));
+    expect(header.lemmas).toEqual(['c/1961', '3651 c', '5291', 'b']);
+    expect(header.morphs).toEqual(['HC/Vqw3ms', 'HD', 'HNcfsa']);
+    expect(content).not.toContain('"source"');
+    expect(content).not.toContain('"segments"');
+  });
+
+  it('reads verses back by random access', async () => {
+    const reader = await PackedBookReader.open(backend, 'Test.jsonl');
+    expect(reader.chapters()).toEqual([1, 2]);
+    expect(reader.verses(1)).toEqual([1, 2]);
+
+    const { segments, ...first } = VERSES[0].data.words[0];
+    expect(await reader.readVerse(1, 1)).toEqual({
+      ...VERSES[0].data,
+      words: [first, VERSES[0].data.words[1]],
+    });
+    expect(segments).toBeDefined();
+    expect(await reader.readVerse(1, 2)).toEqual(VERSES[1].data);
+    expect(await reader.readVerse(2, 1)).toEqual(VERSES[2].data);
+    expect(await reader.readVerse(3, 1)).toBeNull();
+  });
+
+  it('reads whole chapters', async () => {
+    const reader = await PackedBookReader.open(backend, 'Test.jsonl');
+    const chapter = await reader.readChapter(1);
+    expect(chapter.map(v => v.verse)).toEqual([1, 2]);
+    expect(chapter[1].data).toEqual(VERSES[1].data);
+    expect(await reader.readChapter(5)).toEqual([]);
+  });
+
+  it('rejects files in another format', async () => {
+    await expect(PackedBookReader.open(backend, 'Other.jsonl')).rejects.toThrow('Unsupported packed data');
+    await expect(PackedBookReader.open(backend, 'Missing.jsonl')).rejects.toMatchObject({ code: 'ENOENT' });
+  });
+});
+
+describe('packed loaders', () => {
+  it('match the per-verse JSON files', async () => {
+    const verses = await loadChapter('Ruth', 1);
+    const dataPath = join(__dirname, '..', 'data', 'openscriptures-OHB', 'Ruth', '1', '16.json');
+    const json = JSON.parse(await readFile(dataPath, 'utf-8'));
+    const { gematria, ...verse } = verses[15];
+    const words = verse.words.map(({ segments, gematria, ...word }) => word);
+    expect({ ...verse, words }).toEqual(json);
+  });
+
+  it('need no per-verse JSON files, as in the published package', async () => {
+    const published = createSource({ dataPath: 'data/unpublished-OHB', packedPath: 'data/openscriptures-OHB-packed' });
+    expect(await published.loadChapter('Ruth', 1)).toEqual(await loadChapter('Ruth', 1));
+    expect(await published.loadBook('Ruth')).toHaveLength(85);
+    expect(await published.searchText('"ברא אלהים"', { range: 'Gen 1:1-5' })).toEqual(
+      await searchText('"ברא אלהים"', { range: 'Gen 1:1-5' })
+    );
+  });
+});
@@ -0,0 +1,66 @@
+/**
+ * Tests for Masoretic paragraph grouping
+ */
+
+import { describe, it, expect } from 'vitest';
+import { groupParagraphs } from '../src/paragraphs.js';
+import { loadParagraphs } from '../src/source.js';
+import { UnknownBookError } from '../src/books.js';
+import { GEN_1_XML, importedSource } from './fixtures/morphhb.js';
+
+describe('groupParagraphs', () => {
+  it('closes a paragraph at each marked verse', () => {
+    const paragraphs = groupParagraphs([
+      { chapter: 1, verse: 1 },
+      { chapter: 1, verse: 2, paragraph: 'setumah' },
+      { chapter: 1, verse: 3 },
+      { chapter: 2, verse: 1, paragraph: 'petuchah' },
+    ]);
+
+    expect(paragraphs).toEqual([
+      { marker: 'setumah', start: { chapter: 1, verse: 1 }, end: { chapter: 1, verse: 2 } },
+      { marker: 'petuchah', start: { chapter: 1, verse: 3 }, end: { chapter: 2, verse: 1 } },
+    ]);
+  });
+
+  it('leaves the trailing paragraph without a marker', () => {
+    const paragraphs = groupParagraphs([
+      { chapter: 1, verse: 1, paragraph: 'petuchah' },
+      { chapter: 1, verse: 2 },
+      { chapter: 1, verse: 3 },
+    ]);
+
+    expect(paragraphs[1]).toEqual({ start: { chapter: 1, verse: 2 }, end: { chapter: 1, verse: 3 } });
+  });
+
+  it('returns no paragraphs for no verses', () => {
+    expect(groupParagraphs([])).toEqual([]);
+  });
+});
+
+describe('loadParagraphs', () => {
+  it('covers the whole book from first to last verse', async () => {
+    const paragraphs = await loadParagraphs('Ruth');
+    expect(paragraphs[0].start).toEqual({ chapter: 1, verse: 1 });
+    expect(paragraphs[paragraphs.length - 1].end).toEqual({ chapter: 4, verse: 22 });
+  });
+
+  it('ends paragraphs at the markers in the text', async () => {
+    const [first, second] = await importedSource(GEN_1_XML).loadParagraphs('Gen', 1);
+    expect(first).toEqual({ marker: 'petuchah', start: { chapter: 1, verse: 1 }, end: { chapter: 1, verse: 5 } });
+    expect(second).toEqual({ start: { chapter: 1, verse: 6 }, end: { chapter: 1, verse: 6 } });
+  });
+
+  it('returns only paragraphs overlapping the chapter', async () => {
+    const paragraphs = await loadParagraphs('Ruth', 2);
+    for (const p of paragraphs) {
+      expect(p.start.chapter).toBeLessThanOrEqual(2);
+      expect(p.end.chapter).toBeGreaterThanOrEqual(2);
+    }
+  });
+
+  it('throws for unknown books and chapters', async () => {
+    await expect(loadParagraphs('Maccabees')).rejects.toThrow(UnknownBookError);
+    await expect(loadParagraphs('Ruth', 5)).rejects.toThrow('Chapter Ruth 5 not found');
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * Tests for morphology pattern search
+ */
+
+import { describe, it, expect } from 'vitest';
+import { matchesPattern, matchSequence } from '../src/patterns.js';
+import { searchMorphology } from '../src/source.js';
+import type { WordEntry } from '../src/types.js';
+import { JER_6_26_XML, importedSource } from './fixtures/morphhb.js';
+
+function word(position: number, morph: string, variant?: 'ketiv' | 'qere'): WordEntry {
+  return { position, text: '', lemma: null, morph, variant };
+}
+
+describe('matchesPattern', () => {
+  it('matches stem features and code globs', () => {
+    const verb = word(1, 'HC/Vqp3ms');
+    expect(matchesPattern(verb, { partOfSpeech: 'verb', stem: 'qal', aspect: 'perfect', person: 3 })).toBe(true);
+    expect(matchesPattern(verb, { stem: 'piel' })).toBe(false);
+    expect(matchesPattern(verb, { code: 'HC/Vq*' })).toBe(true);
+    expect(matchesPattern(verb, { code: 'HVq*' })).toBe(false);
+    expect(matchesPattern(verb, { language: 'Aramaic' })).toBe(false);
+  });
+
+  it('matches prefix and suffix segments with has', () => {
+    const noun = word(1, 'HTd/Ncmpa');
+    expect(matchesPattern(noun, { partOfSpeech: 'noun', has: [{ role: 'prefix', type: 'definiteArticle' }] })).toBe(true);
+    expect(matchesPattern(noun, { has: [{ role: 'suffix' }] })).toBe(false);
+    expect(matchesPattern({ ...noun, morph: null }, {})).toBe(false);
+  });
+
+  it('never matches codes the decoder rejects', () => {
+    expect(matchesPattern(word(1, 'HVtz2fs'), {})).toBe(false);
+    expect(matchesPattern(word(1, 'HVtz2fs'), { code: 'HVt*' })).toBe(false);
+  });
+});
+
+describe('matchSequence', () => {
+  it('matches adjacent words and skips ketiv readings', () => {
+    const words = [word(1, 'HNcmsc'), word(2, 'HNcmsa', 'ketiv'), word(3, 'HTd/Ncmsa', 'qere'), word(4, 'HNcmsc')];
+    const patterns = [{ state: 'construct' as const }, { has: [{ type: 'definiteArticle' }] }];
+    expect(matchSequence(words, patterns)).toEqual([[1, 3]]);
+  });
+
+  it('reads qere words in place of their ketiv when stored after the verse', () => {
+    const words = [word(1, 'HNcmsc'), word(2, 'HNcmsa', 'ketiv'), word(3, 'HNcmsc'), word(4, 'HTd/Ncmsa', 'qere')];
+    const patterns = [{ state: 'construct' as const }, { has: [{ type: 'definiteArticle' }] }];
+    expect(matchSequence(words, patterns)).toEqual([[1, 4]]);
+  });
+});
+
+describe('searchMorphology', () => {
+  it('finds Qal perfect 3ms verbs in a book', async () => {
+    const matches = await searchMorphology(
+      { partOfSpeech: 'verb', stem: 'qal', aspect: 'perfect', person: 3, gender: 'masculine', number: 'singular' },
+      { book: 'Genesis' }
+    );
+    expect(matches[0]).toEqual({ book: 'Gen', chapter: 1, verse: 1, positions: [2] });
+    expect(matches.every(m => m.book === 'Gen' && m.positions.length === 1)).toBe(true);
+  });
+
+  it('finds a construct noun followed by a noun with the article', async () => {
+    const matches = await searchMorphology(
+      [
+        { partOfSpeech: 'noun', state: 'construct' },
+        { partOfSpeech: 'noun', has: [{ role: 'prefix', type: 'definiteArticle' }] },
+      ],
+      { range: 'Gen 1:1-5' }
+    );
+    expect(matches).toContainEqual({ book: 'Gen', chapter: 1, verse: 2, positions: [13, 14] });
+    expect(matches.every(m => m.chapter === 1 && m.verse <= 5)).toBe(true);
+  });
+
+  it('follows the qere through a ketiv/qere verse', async () => {
+    // Ruth 1:8 writes יעשה (imperfect) and reads יַ֣עַשׂ (jussive), stored after the verse
+    const patterns = [{ code: 'HNcfsc/Sp3fs' }, { code: 'HVqj3ms' }, { code: 'HNp' }];
+    expect(await searchMorphology(patterns, { range: 'Ruth 1:8' })).toEqual([
+      { book: 'Ruth', chapter: 1, verse: 8, positions: [9, 19, 11] },
+    ]);
+    expect(await searchMorphology([{ code: 'HNcfsc/Sp3fs' }, { code: 'HVqi3ms' }], { range: 'Ruth 1:8' })).toEqual([]);
+  });
+
+  it('searches the whole Hebrew Bible without a scope', async () => {
+    const matches = await searchMorphology({ partOfSpeech: 'verb', stem: 'hishtaphel' });
+    expect(matches[0]).toMatchObject({ book: 'Gen', chapter: 22, verse: 5 });
+    expect(matches.map(m => m.book)).toEqual(expect.arrayContaining(['Ps', '2Chr', 'Zeph']));
+    expect(await searchMorphology({ stem: 'hithpael', aspect: 'imperative' }, { book: 'Jer' })).toContainEqual(
+      { book: 'Jer', chapter: 6, verse: 26, positions: [5] }
+    );
+  }, 30000);
+
+  it('skips words whose code the decoder rejects', async () => {
+    const source = importedSource(JER_6_26_XML.replace('HVtv2fs/', 'HVtz2fs'));
+    const matches = await source.searchMorphology({ partOfSpeech: 'verb' }, { book: 'Jer' });
+    expect(matches.map(m => m.positions[0])).toEqual([3, 9, 15, 16]);
+  });
+
+  it('requires a pattern', async () => {
+    await expect(searchMorphology([])).rejects.toThrow('at least one pattern');
+  });
+});
@@ -0,0 +1,120 @@
+/**
+ * Tests for Qere/Ketiv reading modes
+ */
+
+import { describe, it, expect } from 'vitest';
+import { applyReading, pairVariants } from '../src/qere.js';
+import { listQereKetiv, loadChapter, loadVerse } from '../src/source.js';
+import type { OhbVerseData, WordEntry } from '../src/types.js';
+
+function word(position: number, text: string, strongs: string, variant?: 'ketiv' | 'qere'): WordEntry {
+  return { position, text, lemma: strongs.slice(1), morph: null, strongs: [strongs], variant };
+}
+
+// Shaped like the stored data: qere words follow the verse's other words
+const VERSE: OhbVerseData = {
+  text: '',
+  words: [
+    word(1, 'הוא', 'H1931', 'ketiv'),
+    word(2, 'והיא', 'H1931', 'ketiv'),
+    word(3, 'וּבֵיתָהּ', 'H1004'),
+    word(4, 'אם', 'H518', 'ketiv'),
+    { ...word(5, 'יָמִים', 'H3117'), punctuation: 'sofPasuq' },
+    word(6, 'הִיא', 'H1931', 'qere'),
+    word(7, 'וָהוּא', 'H1931', 'qere'),
+  ],
+} as OhbVerseData;
+
+describe('pairVariants', () => {
+  it('pairs ketiv runs with the qere words read in their place', () => {
+    const pairs = pairVariants(VERSE.words).map(({ ketiv, qere }) => ({
+      ketiv: ketiv.map(w => w.position),
+      qere: qere.map(w => w.position),
+    }));
+    expect(pairs).toEqual([
+      { ketiv: [1, 2], qere: [6, 7] },
+      { ketiv: [4], qere: [] },
+    ]);
+  });
+
+  it('pairs qere words kept in source order after their ketiv', () => {
+    const words = [
+      word(1, 'הוא', 'H1931', 'ketiv'),
+      word(2, 'הִיא', 'H1931', 'qere'),
+      word(3, 'וּבֵיתָהּ', 'H1004'),
+      word(4, 'אם', 'H518', 'ketiv'),
+      word(5, 'יָמִים', 'H3117'),
+    ];
+    expect(pairVariants(words).map(({ ketiv, qere }) => [ketiv.map(w => w.position), qere.map(w => w.position)])).toEqual([
+      [[1], [2]],
+      [[4], []],
+    ]);
+    expect(applyReading({ text: '', words } as OhbVerseData, 'qere').words.map((w: WordEntry) => w.position)).toEqual([2, 3, 5]);
+  });
+
+  it('reports qere words without a ketiv', () => {
+    const pairs = pairVariants([word(1, 'נָתַן', 'H5414'), word(2, 'אֵלַי', 'H413', 'qere')]);
+    expect(pairs).toHaveLength(1);
+    expect(pairs[0].ketiv).toEqual([]);
+    expect(pairs[0].qere.map(w => w.text)).toEqual(['אֵלַי']);
+  });
+});
+
+describe('applyReading', () => {
+  it('puts qere words in place of their ketiv', () => {
+    const read = applyReading(VERSE, 'qere');
+    expect(read.words.map((w: WordEntry) => w.position)).toEqual([6, 7, 3, 5]);
+    expect(read.text).toBe('הִיא וָהוּא וּבֵיתָהּ יָמִים׃');
+  });
+
+  it('drops qere words for the ketiv', () => {
+    expect(applyReading(VERSE, 'ketiv').text).toBe('הוא והיא וּבֵיתָהּ אם יָמִים׃');
+  });
+
+  it('leaves the verse unchanged for both', () => {
+    expect(applyReading(VERSE, 'both')).toBe(VERSE);
+    expect(VERSE.words).toHaveLength(7);
+  });
+});
+
+describe('reading option', () => {
+  it('reads Gen 8:17 with only the qere or the ketiv', async () => {
+    const both = await loadVerse('Gen', 8, 17);
+    const qere = await loadVerse('Gen', 8, 17, { reading: 'qere' });
+    const ketiv = await loadVerse('Gen', 8, 17, { reading: 'ketiv' });
+    const [written, read] = both.words.filter((w: WordEntry) => w.variant).map((w: WordEntry) => w.text);
+    const ketivIndex = both.words.findIndex((w: WordEntry) => w.variant === 'ketiv');
+    const before = both.words[ketivIndex - 1].text;
+    const after = both.words.slice(ketivIndex).find((w: WordEntry) => !w.variant).text;
+
+    expect(written).toBe('הוצא');
+    expect(both.text).toContain(read);
+    expect(qere.text).toContain(`${before} ${read} ${after}`);
+    expect(qere.text).not.toContain(written);
+    expect(ketiv.text).toContain(`${before} ${written} ${after}`);
+    expect(ketiv.text).not.toContain(read);
+    expect(qere.words).toHaveLength(both.words.length - 1);
+  });
+
+  it('applies to whole chapters without changing cached verses', async () => {
+    const qere = await loadChapter('Gen', 8, { reading: 'qere' });
+    expect(qere[16].words.some((w: WordEntry) => w.variant === 'ketiv')).toBe(false);
+    expect((await loadVerse('Gen', 8, 17)).words.some((w: WordEntry) => w.variant === 'ketiv')).toBe(true);
+  });
+});
+
+describe('listQereKetiv', () => {
+  it('lists every variant of a book with its positions', async () => {
+    const pairs = await listQereKetiv('Ruth');
+    expect(pairs.length).toBeGreaterThan(10);
+    expect(pairs.every(p => p.book === 'Ruth')).toBe(true);
+
+    // Written but not read, and read but not written
+    expect(pairs).toContainEqual(expect.objectContaining({
+      chapter: 3, verse: 12, qere: { positions: [], text: '' },
+    }));
+    const unwritten = pairs.find(p => p.chapter === 3 && p.verse === 17)!;
+    expect(unwritten.ketiv.positions).toEqual([]);
+    expect(unwritten.qere.text).toBe('אֵלַ֔י');
+  });
+});
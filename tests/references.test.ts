@@ -0,0 +1,78 @@
+/**
+ * Tests for passage references and range loading
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseReference } from '../src/references.js';
+import { loadBook, loadPassage, loadRange } from '../src/source.js';
+import { UnknownBookError } from '../src/books.js';
+
+describe('parseReference', () => {
+  it('parses a range across chapters', () => {
+    expect(parseReference('Gen 1:26-2:3')).toEqual([
+      { book: 'Gen', start: { chapter: 1, verse: 26 }, end: { chapter: 2, verse: 3 } },
+    ]);
+  });
+
+  it('parses whole chapters and chapter ranges', () => {
+    expect(parseReference('Ps 23')).toEqual([
+      { book: 'Ps', start: { chapter: 23 }, end: { chapter: 23 } },
+    ]);
+    expect(parseReference('1 Sam 1-2')).toEqual([
+      { book: '1Sam', start: { chapter: 1 }, end: { chapter: 2 } },
+    ]);
+  });
+
+  it('reuses the book after ";" and the chapter after ","', () => {
+    expect(parseReference('Isa 40:1-11; 52:7')).toEqual([
+      { book: 'Isa', start: { chapter: 40, verse: 1 }, end: { chapter: 40, verse: 11 } },
+      { book: 'Isa', start: { chapter: 52, verse: 7 }, end: { chapter: 52, verse: 7 } },
+    ]);
+    expect(parseReference('Isa 40:1-2, 5')[1]).toEqual(
+      { book: 'Isa', start: { chapter: 40, verse: 5 }, end: { chapter: 40, verse: 5 } }
+    );
+  });
+
+  it('rejects malformed references', () => {
+    expect(() => parseReference('Gen')).toThrow("Invalid reference 'Gen'");
+    expect(() => parseReference('Gen 2:3-1:26')).toThrow('Invalid reference');
+    expect(() => parseReference('1:1')).toThrow('Invalid reference');
+    expect(() => parseReference('Genisis 1:1')).toThrow(UnknownBookError);
+  });
+});
+
+describe('range loading', () => {
+  it('loads a passage across a chapter boundary', async () => {
+    const verses = await loadPassage('Gen 1:26-2:3');
+    expect(verses).toHaveLength(9);
+    expect(verses[0]).toMatchObject({ book: 'Gen', chapter: 1, verse: 26 });
+    expect(verses[verses.length - 1]).toMatchObject({ book: 'Gen', chapter: 2, verse: 3 });
+  });
+
+  it('loads ranges given as references', async () => {
+    const verses = await loadRange(
+      { book: 'Genesis', chapter: 1, verse: 31 },
+      { book: 'Gen', chapter: 2, verse: 1 }
+    );
+    expect(verses.map(v => `${v.chapter}:${v.verse}`)).toEqual(['1:31', '2:1']);
+    await expect(loadRange(
+      { book: 'Genesis', chapter: 50, verse: 26 },
+      { book: 'Exodus', chapter: 1, verse: 1 }
+    )).rejects.toThrow('within one book');
+  });
+
+  it('maps English endpoints to Hebrew numbering', async () => {
+    const verses = await loadPassage('Joel 2:28-32', { versification: 'kjv' });
+    expect(verses.map(v => `${v.chapter}:${v.verse}`)).toEqual(['3:1', '3:2', '3:3', '3:4', '3:5']);
+  });
+
+  it('loads a whole book', async () => {
+    const ruth = await loadBook('Ruth');
+    expect(ruth).toHaveLength(85);
+    expect(ruth[0]).toMatchObject({ book: 'Ruth', chapter: 1, verse: 1 });
+  });
+
+  it('throws for passages outside the data', async () => {
+    await expect(loadPassage('Gen 51')).rejects.toThrow('not found');
+  });
+});
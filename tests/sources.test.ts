@@ -0,0 +1,87 @@
+/**
+ * Tests for configurable sources and registration
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { readFile } from 'fs/promises';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+import { createMemoryBackend } from '../src/backends.js';
+import { createSource, loadVerse } from '../src/source.js';
+
+const registered = vi.hoisted(() => [] as Array<Record<string, unknown>>);
+vi.mock('@metaxia/scriptures-core', () => ({
+  registerSource: (source: Record<string, unknown>) => registered.push(source),
+}));
+
+const { register } = await import('../src/registration.js');
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+const ROOT_DIR = join(__dirname, '..');
+
+async function readVerseJson(book: string, chapter: number, verse: number): Promise<string> {
+  return readFile(join(ROOT_DIR, 'data', 'openscriptures-OHB', book, String(chapter), `${verse}.json`), 'utf-8');
+}
+
+describe('createSource', () => {
+  it('uses the default edition and locations', () => {
+    const source = createSource();
+    expect(source.edition).toBe('openscriptures-OHB');
+    expect(source.metadata.abbreviation).toBe('openscriptures-OHB');
+    expect(source.dataPath).toBe('data/openscriptures-OHB');
+    expect(source.packedPath).toBe('data/openscriptures-OHB-packed');
+    expect(source.cachePath).toBe('cache');
+  });
+
+  it('reads from its own data path and reports its edition', async () => {
+    const source = createSource({
+      edition: 'OHB-2.2',
+      dataPath: 'releases/2.2',
+      backend: createMemoryBackend({ 'releases/2.2/Ruth/1/1.json': await readVerseJson('Ruth', 1, 1) }),
+    });
+
+    expect(source.metadata.abbreviation).toBe('OHB-2.2');
+    expect(source.packedPath).toBe('releases/2.2-packed');
+    expect((await source.loadVerse('Ruth', 1, 1)).text).toBe((await loadVerse('Ruth', 1, 1)).text);
+    await expect(source.loadVerse('Ruth', 1, 2)).rejects.toThrow('Verse Ruth 1:2 not found in OHB-2.2');
+  });
+
+  it('keeps caches and backends separate between sources', async () => {
+    const ruth = await readVerseJson('Ruth', 1, 1);
+    const jonah = await readVerseJson('Jonah', 1, 1);
+    const first = createSource({ backend: createMemoryBackend({ 'data/openscriptures-OHB/Ruth/1/1.json': ruth }) });
+    const second = createSource({ backend: createMemoryBackend({ 'data/openscriptures-OHB/Ruth/1/1.json': jonah }) });
+
+    expect((await first.loadVerse('Ruth', 1, 1)).text).toBe(JSON.parse(ruth).text);
+    expect((await second.loadVerse('Ruth', 1, 1)).text).toBe(JSON.parse(jonah).text);
+  });
+
+  it('creates a lazy backend on first use only', async () => {
+    const factory = vi.fn(() =>
+      createMemoryBackend({ 'caches/verseCounts.json': JSON.stringify({ Ruth: [22, 23, 18, 22] }) })
+    );
+    const source = createSource({ cachePath: 'caches', backend: factory });
+    expect(factory).not.toHaveBeenCalled();
+
+    expect((await source.loadCache('verseCounts')).Ruth).toHaveLength(4);
+    await source.loadCache('verseCounts');
+    expect(factory).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('register', () => {
+  it('registers a new source under its edition key', async () => {
+    const source = register({
+      edition: 'OHB-test',
+      metadata: { name: 'Test Hebrew Bible' },
+      backend: createMemoryBackend({ 'data/openscriptures-OHB/Ruth/1/1.json': await readVerseJson('Ruth', 1, 1) }),
+    });
+
+    const registration = registered.at(-1)!;
+    expect(registration.edition).toBe('OHB-test');
+    expect(registration.metadata).toMatchObject({ abbreviation: 'OHB-test', name: 'Test Hebrew Bible', language: 'Hebrew' });
+    expect(registration.loadVerse).toBe(source.loadVerse);
+    expect(await source.loadVerse('Ruth', 1, 1)).toBeDefined();
+  });
+});
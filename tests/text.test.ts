@@ -0,0 +1,55 @@
+/**
+ * Tests for verse text reconstruction
+ */
+
+import { describe, it, expect } from 'vitest';
+import { joinWords } from '../src/text.js';
+import { GEN_1_XML, importedSource } from './fixtures/morphhb.js';
+
+describe('joinWords', () => {
+  it('joins maqqef pairs without a space and ends with sof pasuq', () => {
+    const text = joinWords([
+      { text: 'עַל', punctuation: 'maqqef' },
+      { text: 'פְּנֵי', punctuation: 'space' },
+      { text: 'הַמָּיִם', punctuation: 'sofPasuq' },
+    ]);
+    expect(text).toBe('עַל־פְּנֵי הַמָּיִם׃');
+  });
+
+  it('surrounds paseq with spaces', () => {
+    const text = joinWords([
+      { text: 'אֲנִי', punctuation: 'paseq' },
+      { text: 'יְהוָה' },
+    ]);
+    expect(text).toBe('אֲנִי ׀ יְהוָה');
+  });
+
+  it('falls back to spaces for words without punctuation', () => {
+    expect(joinWords([{ text: 'א' }, { text: 'ב' }, { text: 'ג' }])).toBe('א ב ג');
+  });
+
+  it('returns an empty string for no words', () => {
+    expect(joinWords([])).toBe('');
+  });
+});
+
+describe('imported verse text', () => {
+  const source = importedSource(GEN_1_XML);
+
+  it('ends Gen 1:1 with sof pasuq', async () => {
+    const verse = await source.loadVerse('Gen', 1, 1);
+    const last = verse.words[verse.words.length - 1];
+    expect(verse.text.endsWith(`${last.text}׃`)).toBe(true);
+    expect(verse.words.map((w: { punctuation?: string }) => w.punctuation)).toEqual([
+      'space', 'space', 'space', 'space', 'space', 'space', 'sofPasuq',
+    ]);
+  });
+
+  it('joins maqqef pairs in Gen 1:4', async () => {
+    const verse = await source.loadVerse('Gen', 1, 4);
+    const [, , et, or, ki, tov] = verse.words.map((w: { text: string }) => w.text);
+    expect(verse.text).toContain(`${et}־${or} ${ki}־${tov}`);
+    expect(verse.words[2].punctuation).toBe('maqqef');
+    expect(verse.words[4].punctuation).toBe('maqqef');
+  });
+});
@@ -0,0 +1,120 @@
+/**
+ * Tests for the corpus invariants and the validate command
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { spawnSync } from 'child_process';
+import { cp, mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { validateVerse, validateVerseCounts } from '../src/validation.js';
+import type { OhbVerseData, WordEntry } from '../src/types.js';
+
+function word(position: number, text: string, lemma: string | null, strongs?: string[]): WordEntry {
+  return { position, text, lemma, morph: null, strongs };
+}
+
+function verse(...words: WordEntry[]): OhbVerseData {
+  return { text: '', words } as OhbVerseData;
+}
+
+describe('validateVerse', () => {
+  it('accepts a well-formed verse', () => {
+    const data = verse(word(1, 'בְּ/רֵאשִׁ֖ית', 'b/7225', ['H7225']), word(2, 'בָּרָ֣א', '1254 a', ['H1254']));
+    expect(validateVerse('Gen', 1, 1, data)).toEqual([]);
+  });
+
+  it('reports gaps in word positions', () => {
+    const data = verse(word(1, 'א', '1', ['H1']), word(3, 'ב', '2', ['H2']));
+    expect(validateVerse('Gen', 1, 1, data)).toEqual([
+      { check: 'positions', ref: 'Gen.1.1', position: 3, message: 'Word 2 has position 3' },
+    ]);
+  });
+
+  it('reports missing lemmas unless the word is flagged', () => {
+    const flagged = { ...word(2, 'ב', null), metadata: { unlemmatized: true } };
+    const issues = validateVerse('Gen', 1, 1, verse(word(1, 'א', null), flagged));
+    expect(issues).toEqual([{ check: 'lemmas', ref: 'Gen.1.1', position: 1, message: "Word 'א' has no lemma" }]);
+  });
+
+  it("reports Strong's numbers that do not match the lemma", () => {
+    const issues = validateVerse('Gen', 1, 1, verse(word(1, 'א', 'c/1254 a', ['H1255'])));
+    expect(issues.map(issue => issue.check)).toEqual(['strongs']);
+    expect(issues[0].message).toContain('H1254');
+  });
+
+  it('reports bare maqqef words', () => {
+    const issues = validateVerse('Gen', 1, 1, verse(word(1, '־', '1', ['H1'])));
+    expect(issues.map(issue => issue.check)).toEqual(['maqqef']);
+  });
+
+  it('reports unpaired ketiv and qere outside the Masoretic lists', () => {
+    const ketiv = { ...word(1, 'הוא', '1931', ['H1931']), variant: 'ketiv' as const };
+    const qere = { ...word(1, 'הִיא', '1931', ['H1931']), variant: 'qere' as const };
+
+    expect(validateVerse('Gen', 1, 1, verse(ketiv))).toEqual([
+      { check: 'qereKetiv', ref: 'Gen.1.1', position: 1, message: "Ketiv 'הוא' has no qere" },
+    ]);
+    expect(validateVerse('Gen', 1, 1, verse(qere))).toEqual([
+      { check: 'qereKetiv', ref: 'Gen.1.1', position: 1, message: "Qere 'הִיא' has no ketiv" },
+    ]);
+    expect(validateVerse('Ruth', 3, 12, verse(ketiv))).toEqual([]);
+    expect(validateVerse('2Sam', 18, 20, verse(qere))).toEqual([]);
+  });
+});
+
+describe('validateVerseCounts', () => {
+  it('reports chapters whose verse count differs from the reference', () => {
+    expect(validateVerseCounts({ Ruth: [22, 23, 18, 22] }, { Ruth: [22, 23, 18, 22] })).toEqual([]);
+    expect(validateVerseCounts({ Ruth: [22, 23, 17] }, { Ruth: [22, 23, 18, 22] })).toEqual([
+      { check: 'verseCounts', ref: 'Ruth', message: 'Ruth has 3 chapters, expected 4' },
+      { check: 'verseCounts', ref: 'Ruth.3', message: 'Ruth 3 has 17 verses, expected 18' },
+    ]);
+  });
+});
+
+describe('validate command', () => {
+  let dir: string;
+
+  const run = (...args: string[]) => {
+    const result = spawnSync(join('node_modules', '.bin', 'tsx'), ['scripts/validate.ts', ...args], {
+      encoding: 'utf-8',
+      timeout: 60_000,
+    });
+    return { status: result.status, report: JSON.parse(result.stdout) };
+  };
+
+  beforeAll(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'ohb-validate-'));
+    await cp(join('data', 'openscriptures-OHB', 'Ruth'), join(dir, 'Ruth'), { recursive: true });
+  });
+
+  afterAll(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('passes the bundled data', () => {
+    const { status, report } = run('--data', dir, '--books', 'Ruth');
+    expect(status).toBe(0);
+    expect(report).toMatchObject({ ok: true, books: 1, verses: 85, issues: [] });
+  });
+
+  it('reports broken data with a non-zero exit code', async () => {
+    const path = join(dir, 'Ruth', '1', '1.json');
+    const data = JSON.parse(await readFile(path, 'utf-8'));
+    data.words[0].lemma = null;
+    data.words[1].position = 5;
+    await writeFile(path, JSON.stringify(data), 'utf-8');
+    await rm(join(dir, 'Ruth', '4', '22.json'));
+
+    const { status, report } = run('--data', dir, '--books', 'Ruth');
+    expect(status).toBe(1);
+    expect(report.ok).toBe(false);
+    expect(report.checks).toMatchObject({ positions: 1, lemmas: 1, strongs: 1, verseCounts: 1 });
+    expect(report.issues).toContainEqual({
+      check: 'verseCounts',
+      ref: 'Ruth.4',
+      message: 'Ruth 4 has 21 verses, expected 22',
+    });
+  });
+});
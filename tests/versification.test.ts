@@ -0,0 +1,71 @@
+/**
+ * Tests for Hebrew/English versification mapping
+ */
+
+import { describe, it, expect } from 'vitest';
+import { mapReference } from '../src/versification.js';
+import { loadVerse, loadChapter } from '../src/source.js';
+
+describe('mapReference', () => {
+  it('maps English chapter-boundary verses to Hebrew', () => {
+    expect(mapReference({ book: 'Malachi', chapter: 4, verse: 1 }, 'kjv', 'wlc'))
+      .toEqual({ book: 'Malachi', chapter: 3, verse: 19 });
+    expect(mapReference({ book: 'Joel', chapter: 2, verse: 28 }, 'nrsv', 'wlc'))
+      .toEqual({ book: 'Joel', chapter: 3, verse: 1 });
+    expect(mapReference({ book: 'Joel', chapter: 3, verse: 21 }, 'kjv', 'wlc'))
+      .toEqual({ book: 'Joel', chapter: 4, verse: 21 });
+  });
+
+  it('maps Hebrew verses back to English', () => {
+    expect(mapReference({ book: 'Mal', chapter: 3, verse: 24 }, 'wlc', 'kjv'))
+      .toEqual({ book: 'Mal', chapter: 4, verse: 6 });
+    expect(mapReference({ book: 'Mal', chapter: 3, verse: 18 }, 'wlc', 'kjv'))
+      .toEqual({ book: 'Mal', chapter: 3, verse: 18 });
+  });
+
+  it('counts psalm titles as verse 0 in English', () => {
+    expect(mapReference({ book: 'Psalms', chapter: 3, verse: 0 }, 'kjv', 'wlc'))
+      .toEqual({ book: 'Psalms', chapter: 3, verse: 1 });
+    expect(mapReference({ book: 'Psalms', chapter: 3, verse: 8 }, 'kjv', 'wlc'))
+      .toEqual({ book: 'Psalms', chapter: 3, verse: 9 });
+    expect(mapReference({ book: 'Psalms', chapter: 51, verse: 1 }, 'kjv', 'wlc'))
+      .toEqual({ book: 'Psalms', chapter: 51, verse: 3 });
+    expect(mapReference({ book: 'Psalms', chapter: 51, verse: 2 }, 'wlc', 'kjv'))
+      .toEqual({ book: 'Psalms', chapter: 51, verse: 0 });
+    expect(mapReference({ book: 'Psalms', chapter: 23, verse: 1 }, 'kjv', 'wlc'))
+      .toEqual({ book: 'Psalms', chapter: 23, verse: 1 });
+  });
+
+  it('maps verses split across two verses of the other scheme to the first', () => {
+    expect(mapReference({ book: '1Kgs', chapter: 22, verse: 43 }, 'kjv', 'wlc'))
+      .toEqual({ book: '1Kgs', chapter: 22, verse: 43 });
+    expect(mapReference({ book: '1Kgs', chapter: 22, verse: 44 }, 'wlc', 'kjv'))
+      .toEqual({ book: '1Kgs', chapter: 22, verse: 43 });
+  });
+
+  it('returns null for verses without an equivalent', () => {
+    expect(mapReference({ book: 'Nehemiah', chapter: 7, verse: 68 }, 'kjv', 'wlc')).toBeNull();
+  });
+});
+
+describe('loaders with versification', () => {
+  it('loadVerse resolves English references', async () => {
+    const english = await loadVerse('Malachi', 4, 1, { versification: 'kjv' });
+    const hebrew = await loadVerse('Malachi', 3, 19);
+    expect(english.text).toBe(hebrew.text);
+  });
+
+  it('loadChapter collects an English chapter from Hebrew chapters', async () => {
+    const joel2 = await loadChapter('Joel', 2, { versification: 'kjv' });
+    expect(joel2).toHaveLength(32);
+    expect(joel2[27].text).toBe((await loadVerse('Joel', 3, 1)).text);
+
+    const mal4 = await loadChapter('Malachi', 4, { versification: 'kjv' });
+    expect(mal4).toHaveLength(6);
+  });
+
+  it('still throws for verses that do not exist', async () => {
+    await expect(loadVerse('Nehemiah', 7, 68, { versification: 'kjv' })).rejects.toThrow('not found');
+    await expect(loadChapter('Malachi', 5, { versification: 'kjv' })).rejects.toThrow('not found');
+  });
+});